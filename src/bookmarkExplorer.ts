@@ -0,0 +1,111 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+import { IReplayBookmark } from './nodeDebugTTDInterfaces';
+import { isReplaySession } from './replaySessions';
+
+/**
+ * A bookmark of the replayed trace shown in the 'Time-Travel Bookmarks' view.
+ */
+export class BookmarkItem extends vscode.TreeItem {
+    constructor(public readonly session: vscode.DebugSession, public readonly bookmark: IReplayBookmark) {
+        super(bookmark.label, vscode.TreeItemCollapsibleState.None);
+
+        const location = bookmark.source && bookmark.line !== undefined ? `${bookmark.source.name}:${bookmark.line}` : undefined;
+        this.description = [`event ${bookmark.eventIndex}`, location].filter(detail => !!detail).join(' - ');
+        this.tooltip = [
+            bookmark.label,
+            `Event ${bookmark.eventIndex}`,
+            bookmark.source && bookmark.source.path ? `${bookmark.source.path}:${bookmark.line}` : undefined,
+            `Added: ${new Date(bookmark.created).toLocaleString()}`
+        ].filter(line => !!line).join('\n');
+        this.contextValue = 'bookmark';
+        this.command = { command: 'nodeChakraTTD.moveToBookmark', title: 'Go to Bookmark', arguments: [this] };
+    }
+}
+
+/**
+ * Lists the bookmarks saved with the trace of the active replay session.
+ */
+export class BookmarkExplorerProvider implements vscode.TreeDataProvider<BookmarkItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<BookmarkItem | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    public refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    public getTreeItem(item: BookmarkItem): vscode.TreeItem {
+        return item;
+    }
+
+    public getChildren(item?: BookmarkItem): Thenable<BookmarkItem[]> {
+        const session = vscode.debug.activeDebugSession;
+        if (item || !session || !isReplaySession(session)) {
+            return Promise.resolve([]);
+        }
+
+        return session.customRequest('ttdGetBookmarks').then(response => {
+            const bookmarks = <IReplayBookmark[]>response.bookmarks;
+            return bookmarks.map(bookmark => new BookmarkItem(session, bookmark));
+        }, () => {
+            // not connected yet; the view is refreshed once the session starts
+            return [];
+        });
+    }
+
+    public dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+/**
+ * Register the 'Time-Travel Bookmarks' view together with its commands.
+ */
+export function registerBookmarkExplorer(context: vscode.ExtensionContext): BookmarkExplorerProvider {
+    const provider = new BookmarkExplorerProvider();
+    context.subscriptions.push(provider);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('nodeChakraTTD.bookmarks', provider));
+
+    context.subscriptions.push(vscode.debug.onDidChangeActiveDebugSession(() => provider.refresh()));
+    context.subscriptions.push(vscode.debug.onDidStartDebugSession(() => provider.refresh()));
+    context.subscriptions.push(vscode.debug.onDidTerminateDebugSession(() => provider.refresh()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.refreshBookmarks', () => provider.refresh()));
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.addBookmark', () => addBookmark().then(() => provider.refresh())));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.moveToBookmark', (item: BookmarkItem) => {
+        return item.session.customRequest('ttdMoveToBookmark', { id: item.bookmark.id }).then(undefined, err => {
+            vscode.window.showErrorMessage(`TTD: Failed to go to bookmark '${item.bookmark.label}' -- ${err.message}`);
+        });
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.removeBookmark', (item: BookmarkItem) => {
+        return item.session.customRequest('ttdRemoveBookmark', { id: item.bookmark.id }).then(() => provider.refresh(), err => {
+            vscode.window.showErrorMessage(`TTD: Failed to remove bookmark '${item.bookmark.label}' -- ${err.message}`);
+        });
+    }));
+
+    return provider;
+}
+
+function addBookmark(): Thenable<void> {
+    const session = vscode.debug.activeDebugSession;
+    if (!session || !isReplaySession(session)) {
+        vscode.window.showErrorMessage('TTD: Adding a bookmark needs an active time-travel replay session.');
+        return Promise.resolve();
+    }
+
+    return vscode.window.showInputBox({ prompt: 'Label of the bookmark for the current replay position' }).then(label => {
+        if (!label || !label.trim()) {
+            return undefined;
+        }
+
+        return session.customRequest('ttdAddBookmark', { label: label.trim() }).then(() => undefined, err => {
+            vscode.window.showErrorMessage(`TTD: Failed to add bookmark -- ${err.message}`);
+        });
+    });
+}
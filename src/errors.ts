@@ -68,3 +68,188 @@ export function cannotLoadEnvVarsFromFile(error: string): DebugProtocol.Message
         variables: { _error: error }
     };
 }
+
+export function traceDirectoryNotAbsolute(traceDirectory: string): DebugProtocol.Message {
+    return {
+        id: 2030,
+        format: `VSND2030', "Attribute 'traceDirectory' is not absolute ('${traceDirectory}'); consider adding '\${workspaceFolder}/' as a prefix to make it absolute.`,
+        variables: { path: traceDirectory },
+        showUser: true
+    };
+}
+
+export function cannotCreateTraceDirectory(traceDirectory: string): DebugProtocol.Message {
+    return {
+        id: 2031,
+        format: `VSND2031', "Cannot create or write to the time-travel trace directory '${traceDirectory}'.`,
+        variables: { path: traceDirectory },
+        showUser: true
+    };
+}
+
+export function replayNeedsTraceDirectory(): DebugProtocol.Message {
+    return {
+        id: 2032,
+        format: `VSND2032', "Attribute 'traceDirectory' or 'cwd' is required to replay a time-travel trace.`,
+        showUser: true
+    };
+}
+
+export function traceNotFound(traceDirectory: string): DebugProtocol.Message {
+    return {
+        id: 2033,
+        format: `VSND2033', "Cannot replay time-travel trace: directory '${traceDirectory}' does not exist.`,
+        variables: { path: traceDirectory },
+        showUser: true,
+        sendTelemetry: true
+    };
+}
+
+export function traceLogMissing(traceDirectory: string): DebugProtocol.Message {
+    return {
+        id: 2034,
+        format: `VSND2034', "Cannot replay time-travel trace: '${traceDirectory}' does not contain a trace log (ttdlog.log).`,
+        variables: { path: traceDirectory },
+        showUser: true,
+        sendTelemetry: true
+    };
+}
+
+export function traceFileTruncated(file: string): DebugProtocol.Message {
+    return {
+        id: 2035,
+        format: `VSND2035', "Cannot replay time-travel trace: file '${file}' is empty or truncated.`,
+        variables: { path: file },
+        showUser: true,
+        sendTelemetry: true
+    };
+}
+
+export function traceFileMissing(file: string): DebugProtocol.Message {
+    return {
+        id: 2036,
+        format: `VSND2036', "Cannot replay time-travel trace: file '${file}' is missing.`,
+        variables: { path: file },
+        showUser: true,
+        sendTelemetry: true
+    };
+}
+
+export function traceManifestInvalid(manifestPath: string, _error: string): DebugProtocol.Message {
+    return {
+        id: 2037,
+        format: `VSND2037', "Cannot replay time-travel trace: manifest '${manifestPath}' cannot be read (${_error}).`,
+        variables: { path: manifestPath, _error },
+        showUser: true,
+        sendTelemetry: true
+    };
+}
+
+export function traceManifestIncompatible(manifestVersion: number): DebugProtocol.Message {
+    return {
+        id: 2038,
+        format: `VSND2038', "Cannot replay time-travel trace: it was captured by a newer version of the debugger (manifest version ${manifestVersion}).`,
+        variables: { _version: String(manifestVersion) },
+        showUser: true,
+        sendTelemetry: true
+    };
+}
+
+export function notLiveTimeTravelSession(): DebugProtocol.Message {
+    return {
+        id: 2039,
+        format: `VSND2039', "Time-travel traces can only be captured from a live time-travel session.`,
+        showUser: true
+    };
+}
+
+export function invalidProcessId(processId: string): DebugProtocol.Message {
+    return {
+        id: 2040,
+        format: `VSND2040', "Attribute 'processId' does not contain a valid process id: '${processId}'.`,
+        showUser: true
+    };
+}
+
+export function cannotDebugProcess(processId: string, _error: string): DebugProtocol.Message {
+    return {
+        id: 2041,
+        format: `VSND2041', "Cannot enable debugging in process ${processId} (${_error}).`,
+        variables: { _error },
+        showUser: true,
+        sendTelemetry: true
+    };
+}
+
+export function notReplaySession(): DebugProtocol.Message {
+    return {
+        id: 2042,
+        format: `VSND2042', "This is only available in a time-travel replay session.`,
+        showUser: true
+    };
+}
+
+export function lineNeverRan(line: number, later: boolean): DebugProtocol.Message {
+    return {
+        id: 2043,
+        format: `VSND2043', "Line ${line} did not run ${later ? 'after' : 'before'} this point in the recording.`,
+        showUser: true
+    };
+}
+
+export function invalidGotoTarget(): DebugProtocol.Message {
+    return {
+        id: 2044,
+        format: `VSND2044', "The goto target is no longer valid.`,
+        showUser: true
+    };
+}
+
+export function cannotSaveBookmarks(traceDir: string): DebugProtocol.Message {
+    return {
+        id: 2045,
+        format: `VSND2045', "Cannot save the bookmarks of the trace in '${traceDir}'.`,
+        showUser: true
+    };
+}
+
+export function bookmarkNotFound(id: string): DebugProtocol.Message {
+    return {
+        id: 2046,
+        format: `VSND2046', "The bookmark '${id}' does not exist in this trace.`,
+        showUser: true
+    };
+}
+
+export function timeTravelFeatureNotSupported(feature: string): DebugProtocol.Message {
+    return {
+        id: 2047,
+        format: `VSND2047', "The time-travel runtime does not support ${feature}. This needs a NodeChakraCore build with the replay navigation methods of the TimeTravel domain.`,
+        showUser: true
+    };
+}
+
+export function cannotRunToLine(line: number, _error: string): DebugProtocol.Message {
+    return {
+        id: 2048,
+        format: `VSND2048', "Cannot run the replay to line ${line} (${_error}).`,
+        variables: { _error },
+        showUser: true
+    };
+}
+
+export function replayDidNotPause(timeoutSeconds: number): DebugProtocol.Message {
+    return {
+        id: 2049,
+        format: `VSND2049', "The replay did not pause within ${timeoutSeconds} seconds.`,
+        showUser: true
+    };
+}
+
+export function replayEnded(): DebugProtocol.Message {
+    return {
+        id: 2050,
+        format: `VSND2050', "The replay session ended.`,
+        showUser: true
+    };
+}
@@ -4,85 +4,286 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
 
-export function activate(context: vscode.ExtensionContext) {
-    const pendingLaunchMap = new Map<number, [(msg) => void, () => void]>();
+import * as pathUtils from './pathUtils';
+import * as traceUtils from './traceUtils';
+import * as traceArchive from './traceArchive';
+import * as runtimeCheck from './runtimeCheck';
+import { getInitialConfigurations } from './initialConfigurations';
+import { registerTraceExplorer, TraceItem } from './traceExplorer';
+import { registerTimelineExplorer } from './timelineExplorer';
+import { registerBookmarkExplorer } from './bookmarkExplorer';
+import { TraceLaunchTracker } from './launchTracker';
+import { ReplaySessionTracker, isReplaySession } from './replaySessions';
+import { ReplayPositionIndicator } from './replayPosition';
+import { debugTestWithTimeTravel } from './testRunner';
 
-    vscode.debug.onDidReceiveDebugSessionCustomEvent((e: vscode.DebugSessionCustomEvent) => {
-        if (e.event !== 'ttdLaunch') {
-            return;
-        }
+const DEBUG_TYPE = 'node-chakracore-time-travel-debugger';
 
-        try {
-            if (e.body.state === 'start') {
-                vscode.window.withProgress({ location: vscode.ProgressLocation.Window, title: 'TTD Launch Status' }, p => {
-                    return new Promise((resolve, reject) => {
-                        p.report({ message: 'TTD: Configuring Time-Travel Trace.' });
-
-                        pendingLaunchMap.set(e.body.id, [
-                            (msg) => p.report({ message: msg }),
-                            () => resolve()
-                        ]);
-                    });
-                });
-            } else if (e.body.state === 'write') {
-                (pendingLaunchMap.get(e.body.id)[0])('TTD: Writing Time-Travel Trace.');
-            } else if (e.body.state === 'complete') {
-                if (e.body.payload.launch) {
-                    (pendingLaunchMap.get(e.body.id)[0])('TTD: Launching Time-Travel Debug Configuration.');
-
-                    vscode.debug.startDebugging(undefined, e.body.payload.config).then(() => {
-                        (pendingLaunchMap.get(e.body.id)[1])();
-                        pendingLaunchMap.delete(e.body.id);
-                    });
-                } else {
-                    (pendingLaunchMap.get(e.body.id)[0])('TTD: Launch Aborted!');
-
-                    (pendingLaunchMap.get(e.body.id)[1])();
-                    pendingLaunchMap.delete(e.body.id);
-                }
-            } else {
-                // e.body.state === 'fail'
+export function activate(context: vscode.ExtensionContext) {
+    const traceExplorer = registerTraceExplorer(context);
+    context.subscriptions.push(new TraceLaunchTracker(() => traceExplorer.refresh()));
+    context.subscriptions.push(new ReplaySessionTracker());
+    context.subscriptions.push(new ReplayPositionIndicator());
+    registerTimelineExplorer(context);
+    registerBookmarkExplorer(context);
 
-                (pendingLaunchMap.get(e.body.id)[1])();
-                pendingLaunchMap.delete(e.body.id);
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.captureTrace', () => captureTrace()));
+    context.subscriptions.push(vscode.debug.onDidChangeActiveDebugSession(session => {
+        vscode.commands.executeCommand('setContext', 'nodeChakraTTD.inLiveSession', isLiveSession(session));
+        vscode.commands.executeCommand('setContext', 'nodeChakraTTD.inReplaySession', isReplaySession(session));
+    }));
 
-                let msg = '';
-                if(e.body && e.body.payload) {
-                    msg = ' -- ' + JSON.stringify(e.body.payload);
-                }
-                vscode.window.showErrorMessage('TTD: Failed to launch time-travel debugging session' + msg);
-            }
-        } catch (ex) {
-            ;
-        }
-    });
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.stepBackInto', () => reverseStep('ttdStepBackInto')));
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.stepBackOut', () => reverseStep('ttdStepBackOut')));
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.gotoPreviousExecution', () => gotoExecution(/*later=*/false)));
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.gotoNextExecution', () => gotoExecution(/*later=*/true)));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.exportTrace', (item?: TraceItem) => exportTrace(item && item.traceDir)));
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.importTrace', () => importTrace().then(() => traceExplorer.refresh())));
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.debugTest', (uri?: vscode.Uri) => debugTestWithTimeTravel(uri)));
 
     const provider = new NodeDebugTTDConfigurationProvider();
-    context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('node-chakracore-time-travel-debugger', provider));
+    context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider(DEBUG_TYPE, provider));
     context.subscriptions.push(provider);
 }
 
 export function deactivate() {
 }
 
+function isLiveSession(session: vscode.DebugSession | undefined): boolean {
+    return !!session && session.type === DEBUG_TYPE && !session.configuration.replay;
+}
+
+function captureTrace(): Thenable<void> {
+    const session = vscode.debug.activeDebugSession;
+    if (!isLiveSession(session)) {
+        vscode.window.showErrorMessage('TTD: Capturing a trace needs an active live time-travel debug session.');
+        return Promise.resolve();
+    }
+
+    return session.customRequest('ttdWriteTrace').then(() => undefined, err => {
+        vscode.window.showErrorMessage(`TTD: Failed to capture time-travel trace -- ${err.message}`);
+    });
+}
+
+function reverseStep(request: 'ttdStepBackInto' | 'ttdStepBackOut'): Thenable<void> {
+    const session = vscode.debug.activeDebugSession;
+    if (!session || !isReplaySession(session)) {
+        vscode.window.showErrorMessage('TTD: Stepping back needs an active time-travel replay session.');
+        return Promise.resolve();
+    }
+
+    return session.customRequest(request).then(() => undefined, err => {
+        vscode.window.showErrorMessage(`TTD: Failed to step back -- ${err.message}`);
+    });
+}
+
+/**
+ * Run the replay back or forward to the line of the cursor.
+ */
+function gotoExecution(later: boolean): Thenable<void> {
+    const session = vscode.debug.activeDebugSession;
+    const editor = vscode.window.activeTextEditor;
+    if (!session || !isReplaySession(session) || !editor) {
+        vscode.window.showErrorMessage('TTD: Going to a line needs an active time-travel replay session.');
+        return Promise.resolve();
+    }
+
+    const line = editor.selection.active.line + 1;
+    return session.customRequest('gotoTargets', { source: { path: editor.document.uri.fsPath }, line }).then(response => {
+        // the targets are the previous and the next execution, in this order
+        const target = response.targets[later ? 1 : 0];
+        if (!target) {
+            throw new Error(`${path.basename(editor.document.uri.fsPath)} is not a source of this replay`);
+        }
+
+        // the adapter debugs a single thread
+        return session.customRequest('goto', { threadId: 1, targetId: target.id });
+    }).then(() => undefined, err => {
+        vscode.window.showErrorMessage(`TTD: Failed to go to line ${line} -- ${err.message}`);
+    });
+}
+
+function showRuntimeError(problem: string): Thenable<undefined> {
+    const message = `TTD: Cannot start time-travel debugging: ${problem}. Set 'runtimeExecutable' in the launch configuration or the 'nodeChakraTTD.runtimePath' setting to a NodeChakraCore binary.`;
+    return vscode.window.showErrorMessage(message, 'Open Settings').then(choice => {
+        if (choice === 'Open Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'nodeChakraTTD.runtimePath');
+        }
+
+        return undefined;
+    });
+}
+
+function getFirstWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+    const folders = vscode.workspace.workspaceFolders;
+    return folders && folders.length !== 0 ? folders[0] : undefined;
+}
+
+function getDefaultTraceRoot(): string {
+    const folder = getFirstWorkspaceFolder();
+    return traceUtils.defaultTraceRoot(folder ? folder.uri.fsPath : undefined);
+}
+
+function exportTrace(traceDir?: string): Thenable<void> {
+    const traceDirP: Thenable<string | undefined> = traceDir ? Promise.resolve(traceDir) :
+        vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            defaultUri: vscode.Uri.file(getDefaultTraceRoot()),
+            openLabel: 'Export Trace'
+        }).then(uris => uris && uris.length !== 0 ? uris[0].fsPath : undefined);
+
+    return traceDirP.then(dir => {
+        if (!dir) {
+            return undefined;
+        }
+
+        const entry = traceUtils.readTraceEntry(dir);
+        const manifest = traceUtils.readTraceManifest(dir) ||
+            (entry ? { captureTime: entry.captureTime, program: entry.program } : { captureTime: fs.statSync(dir).mtime.getTime() });
+
+        return vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(`${dir}.${traceArchive.TRACE_ARCHIVE_EXTENSION}`),
+            filters: { 'Time-Travel Trace': [traceArchive.TRACE_ARCHIVE_EXTENSION] }
+        }).then(target => {
+            if (!target) {
+                return undefined;
+            }
+
+            return traceArchive.exportTrace(dir, manifest, target.fsPath)
+                .then(() => vscode.window.showInformationMessage(`TTD: Exported trace to ${target.fsPath}.`));
+        });
+    }).then(() => undefined, err => {
+        vscode.window.showErrorMessage(`TTD: Failed to export trace -- ${err.message}`);
+    });
+}
+
+function importTrace(): Thenable<void> {
+    const folder = getFirstWorkspaceFolder();
+
+    return vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Time-Travel Trace': [traceArchive.TRACE_ARCHIVE_EXTENSION] },
+        openLabel: 'Import Trace'
+    }).then(uris => {
+        if (!uris || uris.length === 0) {
+            return undefined;
+        }
+
+        return traceArchive.importTrace(uris[0].fsPath, getDefaultTraceRoot()).then(([traceDir, manifest]) => {
+            const name = manifest.program ? `Time-Travel Replay (${path.basename(manifest.program)})` : 'Time-Travel Replay';
+            const config = traceUtils.makeReplayConfiguration(traceDir, name);
+
+            return vscode.window.showInformationMessage(`TTD: Imported trace to ${traceDir}.`, 'Replay', 'Add to launch.json').then((choice): Thenable<any> => {
+                if (choice === 'Replay') {
+                    return vscode.debug.startDebugging(folder, <vscode.DebugConfiguration>config);
+                } else if (choice === 'Add to launch.json') {
+                    const launch = vscode.workspace.getConfiguration('launch', folder ? folder.uri : undefined);
+                    const configurations = launch.get<any[]>('configurations') || [];
+                    return launch.update('configurations', configurations.concat([config]), folder ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace);
+                }
+
+                return undefined;
+            });
+        });
+    }).then(() => undefined, err => {
+        vscode.window.showErrorMessage(`TTD: Failed to import trace -- ${err.message}`);
+    });
+}
+
 class NodeDebugTTDConfigurationProvider implements vscode.DebugConfigurationProvider {
+    provideDebugConfigurations(folder: vscode.WorkspaceFolder | undefined, token?: vscode.CancellationToken): vscode.ProviderResult<vscode.DebugConfiguration[]> {
+        return <vscode.DebugConfiguration[]>getInitialConfigurations(folder ? folder.uri.fsPath : undefined);
+    }
+
     resolveDebugConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration, token?: vscode.CancellationToken): vscode.ProviderResult<vscode.DebugConfiguration> {
+        // a replay is a launch of the time-travel runtime on an existing trace
+        if (config.request === 'replay') {
+            config.request = 'launch';
+            config.replay = true;
+        }
+
         config.protocol = 'inspector';
-        if (process.platform === 'win32') {
-            config.runtimeExecutable = path.join(__dirname, '../nodebins/win32/node.exe');
-        } else if (process.platform === 'linux') {
-            config.runtimeExecutable = path.join(__dirname, '../nodebins/linux/node');
+        if (config.request === 'attach') {
+            // the runtime of an attached target is whatever it was started with
+            this.resolveTraceDirectory(folder, config);
+            return config;
+        }
+
+        if (config.replay) {
+            // scripts of a trace recorded elsewhere are mapped to the workspace by default
+            if (config.cwd === undefined && folder) {
+                config.cwd = folder.uri.fsPath;
+            }
+
+            config.runtimeArgs = [];
+            if (config.stopOnEntry === undefined) {
+                config.stopOnEntry = true;
+            }
+            if (config.timeout === undefined) {
+                config.timeout = 30000;
+            }
         } else {
-            config.runtimeExecutable = path.join(__dirname, '../nodebins/darwin/node');
+            // npm scripts run in the folder of their package.json
+            if (config.npmScript && config.cwd === undefined && folder) {
+                config.cwd = folder.uri.fsPath;
+            }
+
+            config.runtimeArgs = [
+                '--tt-debug',
+                '--disable-auto-trace'
+            ];
+        }
+        if (!config.console) {
+            config.console = "internalConsole";
+        }
+
+        this.resolveTraceDirectory(folder, config);
+        return this.resolveRuntime(folder, config);
+    }
+
+    /**
+     * Use the 'runtimeExecutable' of the configuration, the 'nodeChakraTTD.runtimePath' setting or the bundled
+     * runtime, in this order, and make sure it can time-travel before the session starts.
+     */
+    private resolveRuntime(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Thenable<vscode.DebugConfiguration | undefined> {
+        const workspaceFolder = folder ? folder.uri.fsPath : undefined;
+        let runtimePath = vscode.workspace.getConfiguration('nodeChakraTTD', folder ? folder.uri : undefined).get<string>('runtimePath');
+        if (runtimePath) {
+            // VS Code does not substitute variables in settings; a relative path is relative to the workspace folder
+            runtimePath = pathUtils.substituteVariables(runtimePath, undefined, workspaceFolder);
+            runtimePath = workspaceFolder ? path.resolve(workspaceFolder, runtimePath) : runtimePath;
+        }
+
+        const runtime = config.runtimeExecutable || runtimePath || runtimeCheck.getBundledRuntime();
+        if (!runtime) {
+            return showRuntimeError(`there is no bundled NodeChakraCore runtime for ${process.platform}-${process.arch}`);
+        }
+
+        const resolved = runtimeCheck.findRuntime(runtime, config.env);
+        if (!resolved) {
+            return showRuntimeError(`'${runtime}' cannot be found`);
         }
-        config.runtimeArgs = [
-            '--tt-debug',
-            '--disable-auto-trace'
-        ];
-        config.console = "internalConsole";
 
-        return config;
+        return runtimeCheck.checkRuntime(resolved).then<vscode.DebugConfiguration | undefined>(problem => {
+            if (problem) {
+                return showRuntimeError(problem);
+            }
+
+            config.runtimeExecutable = resolved;
+            return config;
+        });
+    }
+
+    private resolveTraceDirectory(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): void {
+        if (config.traceDirectory) {
+            const workspaceFolder = folder ? folder.uri.fsPath : undefined;
+            const cwd = config.cwd ? traceUtils.resolveTraceDirectory(config.cwd, undefined, workspaceFolder) : undefined;
+            config.traceDirectory = traceUtils.resolveTraceDirectory(config.traceDirectory, cwd, workspaceFolder);
+        }
     }
 
     dispose() {
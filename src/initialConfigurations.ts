@@ -0,0 +1,144 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as path from 'path';
+import * as fs from 'fs';
+
+import * as utils from './utils';
+
+const DEBUG_TYPE = 'node-chakracore-time-travel-debugger';
+
+const DEFAULT_PROGRAMS = ['index.js', 'app.js', 'server.js', 'main.js'];
+
+/**
+ * Node options that run code given on the command line instead of a script.
+ */
+const NODE_OPTIONS_WITHOUT_SCRIPT = ['-e', '--eval', '-p', '--print', '-i', '--interactive', '-v', '--version', '-h', '--help'];
+
+/**
+ * Build the time-travel configurations for a new launch.json in 'folderPath': a live configuration for every program
+ * named by its package.json ('main', 'bin' and the 'start' script) and a configuration replaying their traces. Traces
+ * go to the default trace directory of the workspace folder, where the replay configuration finds them.
+ */
+export function getInitialConfigurations(folderPath: string | undefined): { [key: string]: any }[] {
+    const packageJson = folderPath ? readJson(path.join(folderPath, 'package.json')) : undefined;
+    const outDir = folderPath ? getTypeScriptOutDir(folderPath) : undefined;
+
+    let programs = packageJson ? getPackagePrograms(packageJson) : [];
+    if (programs.length === 0 && folderPath) {
+        programs = DEFAULT_PROGRAMS.filter(program => fs.existsSync(path.join(folderPath, program))).slice(0, 1);
+    }
+    if (programs.length === 0) {
+        programs = ['app.js'];
+    }
+
+    const common: { [key: string]: any } = {
+        skipFiles: ['<node_internals>/**']
+    };
+    if (outDir) {
+        common.sourceMaps = true;
+        common.outFiles = [`\${workspaceFolder}/${outDir}/**/*.js`];
+    }
+
+    const configurations: { [key: string]: any }[] = programs.map(program => Object.assign({
+        type: DEBUG_TYPE,
+        request: 'launch',
+        name: programs.length > 1 ? `Time-Travel Live (${path.basename(program)})` : 'Time-Travel Live',
+        program: `\${workspaceFolder}/${program}`,
+        cwd: '${workspaceFolder}'
+    }, common));
+
+    configurations.push(Object.assign({
+        type: DEBUG_TYPE,
+        request: 'replay',
+        name: 'Time-Travel Replay',
+        cwd: '${workspaceFolder}'
+    }, common));
+
+    return configurations;
+}
+
+/**
+ * Returns the programs named in 'packageJson', relative to its directory and without duplicates.
+ */
+function getPackagePrograms(packageJson: any): string[] {
+    const programs: string[] = [];
+    const addProgram = (program: any) => {
+        if (typeof program === 'string' && program) {
+            const normalized = path.posix.normalize(program.replace(/\\/g, '/')).replace(/^\.\//, '');
+            if (programs.indexOf(normalized) < 0) {
+                programs.push(normalized);
+            }
+        }
+    };
+
+    if (packageJson.scripts && typeof packageJson.scripts.start === 'string') {
+        addProgram(getScriptProgram(packageJson.scripts.start));
+    }
+
+    addProgram(packageJson.main);
+
+    if (typeof packageJson.bin === 'string') {
+        addProgram(packageJson.bin);
+    } else if (packageJson.bin && typeof packageJson.bin === 'object') {
+        Object.keys(packageJson.bin).forEach(name => addProgram(packageJson.bin[name]));
+    }
+
+    return programs;
+}
+
+/**
+ * Returns the script started by an npm script of the form 'node [options] <script> [args]'.
+ */
+function getScriptProgram(script: string): string | undefined {
+    const args = script.split(/[&|;]/)[0].trim().split(/\s+/);
+    if (!/^node(?:\.exe)?$/.test(args[0])) {
+        return undefined;
+    }
+
+    for (let i = 1; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith('-')) {
+            return arg;
+        }
+        if (NODE_OPTIONS_WITHOUT_SCRIPT.indexOf(arg) >= 0) {
+            return undefined;
+        }
+        if (utils.NODE_OPTIONS_WITH_VALUE.indexOf(arg) >= 0) {
+            // skip the value, options written as '--option=value' are a single argument
+            i++;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the 'outDir' of the tsconfig.json in 'folderPath', relative to it.
+ */
+function getTypeScriptOutDir(folderPath: string): string | undefined {
+    const tsconfig = readJson(path.join(folderPath, 'tsconfig.json'));
+    const outDir = tsconfig && tsconfig.compilerOptions && tsconfig.compilerOptions.outDir;
+    if (typeof outDir !== 'string') {
+        return undefined;
+    }
+
+    return path.posix.normalize(outDir.replace(/\\/g, '/')).replace(/^\.\//, '').replace(/\/$/, '');
+}
+
+/**
+ * Read a JSON file, allowing the comments found in tsconfig.json files.
+ */
+function readJson(file: string): any {
+    try {
+        const contents = fs.readFileSync(file, 'utf8').replace(/^\uFEFF/, '');
+        try {
+            return JSON.parse(contents);
+        } catch (e) {
+            return JSON.parse(contents.replace(/\/\*[\s\S]*?\*\/|^\s*\/\/.*$/gm, ''));
+        }
+    } catch (e) {
+        return undefined;
+    }
+}
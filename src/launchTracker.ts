@@ -0,0 +1,162 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+/**
+ * Trace writes that do not finish within this time are abandoned.
+ */
+const TRACE_WRITE_TIMEOUT = 120000;
+
+interface IPendingLaunch {
+    session: vscode.DebugSession;
+    id: number;
+    progress: vscode.Progress<{ message?: string }>;
+    finish: () => void;
+    timer: NodeJS.Timer;
+}
+
+/**
+ * Follows the 'ttdLaunch' events of the time-travel debug sessions: shows a cancellable progress notification while a
+ * trace is written and starts the replay once it is complete. Launch ids are only unique within a session, so pending
+ * launches are tracked per session and dropped when their session ends.
+ */
+export class TraceLaunchTracker implements vscode.Disposable {
+    private _pendingLaunches = new Map<string, IPendingLaunch>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private _onTraceWritten: () => void) {
+        this._disposables.push(vscode.debug.onDidReceiveDebugSessionCustomEvent(e => this.onCustomEvent(e)));
+        this._disposables.push(vscode.debug.onDidTerminateDebugSession(session => this.onTerminateSession(session)));
+    }
+
+    public dispose(): void {
+        this._pendingLaunches.forEach(launch => this.finish(launch));
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+
+    private onCustomEvent(e: vscode.DebugSessionCustomEvent): void {
+        if (e.event !== 'ttdLaunch') {
+            return;
+        }
+
+        const state: string = e.body.state;
+        if (state === 'start') {
+            this.start(e.session, e.body.id);
+            return;
+        }
+
+        const launch = this._pendingLaunches.get(launchKey(e.session, e.body.id));
+        if (!launch) {
+            // cancelled or timed out, the adapter still reports how the write ended
+            if (state === 'complete') {
+                this._onTraceWritten();
+            }
+            return;
+        }
+
+        if (state === 'write') {
+            launch.progress.report({ message: 'Writing Time-Travel Trace.' });
+        } else if (state === 'complete') {
+            this._onTraceWritten();
+            this.complete(launch, e.body.payload);
+        } else if (state === 'abort') {
+            this.finish(launch);
+        } else {
+            // state === 'fail'
+            this.finish(launch);
+
+            let msg = '';
+            if (e.body.payload) {
+                msg = ' -- ' + JSON.stringify(e.body.payload);
+            }
+            vscode.window.showErrorMessage('TTD: Failed to launch time-travel debugging session' + msg);
+        }
+    }
+
+    private onTerminateSession(session: vscode.DebugSession): void {
+        this._pendingLaunches.forEach(launch => {
+            if (launch.session.id === session.id) {
+                this.finish(launch);
+            }
+        });
+    }
+
+    private start(session: vscode.DebugSession, id: number): void {
+        vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'TTD', cancellable: true }, (progress, token) => {
+            return new Promise<void>(resolve => {
+                progress.report({ message: 'Configuring Time-Travel Trace.' });
+
+                const launch: IPendingLaunch = {
+                    session,
+                    id,
+                    progress,
+                    finish: resolve,
+                    timer: setTimeout(() => {
+                        this.abort(launch);
+                        vscode.window.showErrorMessage('TTD: Writing the time-travel trace timed out.');
+                    }, TRACE_WRITE_TIMEOUT)
+                };
+
+                this._pendingLaunches.set(launchKey(session, id), launch);
+                token.onCancellationRequested(() => this.abort(launch));
+            });
+        });
+    }
+
+    private complete(launch: IPendingLaunch, payload: { launch: boolean, config: vscode.DebugConfiguration }): void {
+        const config = payload.config;
+        config.liveSessionId = launch.session.id;
+
+        if (!payload.launch) {
+            this.finish(launch);
+
+            vscode.window.showInformationMessage(`TTD: Time-travel trace written to ${config.traceDirectory}.`, 'Replay').then(choice => {
+                if (choice === 'Replay') {
+                    vscode.debug.startDebugging(undefined, config, launch.session);
+                }
+            });
+            return;
+        }
+
+        launch.progress.report({ message: 'Launching Time-Travel Debug Configuration.' });
+        vscode.debug.startDebugging(undefined, config, launch.session).then(() => this.finish(launch), err => {
+            this.finish(launch);
+            vscode.window.showErrorMessage(`TTD: Failed to launch time-travel replay -- ${err.message}`);
+        });
+    }
+
+    /**
+     * Stop waiting for the launch and ask the adapter to throw the trace away.
+     */
+    private abort(launch: IPendingLaunch): void {
+        if (!this.finish(launch)) {
+            return;
+        }
+
+        launch.session.customRequest('ttdAbortTrace', { id: launch.id }).then(undefined, () => {
+            // the session may have ended in the meantime, there is nothing left to abort then
+        });
+    }
+
+    /**
+     * Close the progress notification of the launch. Returns false if it was already finished.
+     */
+    private finish(launch: IPendingLaunch): boolean {
+        const key = launchKey(launch.session, launch.id);
+        if (this._pendingLaunches.get(key) !== launch) {
+            return false;
+        }
+
+        this._pendingLaunches.delete(key);
+        clearTimeout(launch.timer);
+        launch.finish();
+        return true;
+    }
+}
+
+function launchKey(session: vscode.DebugSession, id: number): string {
+    return `${session.id}:${id}`;
+}
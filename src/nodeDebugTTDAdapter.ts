@@ -2,24 +2,30 @@
  * Copyright (C) Microsoft Corporation. All rights reserved.
  *--------------------------------------------------------*/
 
-import { ChromeDebugAdapter, TimeTravelRuntime, chromeUtils, ISourceMapPathOverrides, utils as CoreUtils, logger, telemetry as CoreTelemetry, ISetBreakpointResult, ISetBreakpointsArgs, Crdp, InternalSourceBreakpoint } from 'vscode-chrome-debug-core';
+import { ChromeDebugAdapter, TimeTravelRuntime, chromeUtils, ISourceMapPathOverrides, utils as CoreUtils, logger, telemetry as CoreTelemetry, ISetBreakpointResult, ISetBreakpointsArgs, Crdp, InternalSourceBreakpoint, IStackTraceResponseBody, IScopesResponseBody, IVariablesResponseBody, variables } from 'vscode-chrome-debug-core';
 const telemetry = CoreTelemetry.telemetry;
 
 import { DebugProtocol } from 'vscode-debugprotocol';
-import { OutputEvent, CapabilitiesEvent, Event } from 'vscode-debugadapter';
+import { OutputEvent, CapabilitiesEvent, Event, StoppedEvent } from 'vscode-debugadapter';
 
 import * as path from 'path';
 import * as fs from 'fs';
 import * as cp from 'child_process';
+import * as crypto from 'crypto';
 
-import { ILaunchRequestArguments, IAttachRequestArguments, ICommonRequestArgs } from './nodeDebugTTDInterfaces';
+import { ILaunchRequestArguments, IAttachRequestArguments, ICommonRequestArgs, ITimeTravelEvent, ITimelineEvent, IReplayBookmark, IReplayPosition, IReplayFeatures, TimeTravelFeature, TimeTravelReplayClient, TimeTravelReplayRuntime } from './nodeDebugTTDInterfaces';
 import * as pathUtils from './pathUtils';
 import * as utils from './utils';
+import * as traceUtils from './traceUtils';
+import * as scriptShim from './scriptShim';
 import * as errors from './errors';
 
 import * as nls from 'vscode-nls';
 let localize = nls.loadMessageBundle();
 
+// tslint:disable-next-line:no-var-requires
+const ADAPTER_VERSION: string = require('../package.json').version;
+
 const DefaultSourceMapPathOverrides: ISourceMapPathOverrides = {
     'webpack:///./~/*': '${cwd}/node_modules/*',
     'webpack:///./*': '${cwd}/*',
@@ -27,9 +33,29 @@ const DefaultSourceMapPathOverrides: ISourceMapPathOverrides = {
     'meteor://💻app/*': '${cwd}/*',
 };
 
+/**
+ * What each optional TimeTravel feature lets the user do, for the message shown when the runtime lacks it.
+ */
+const TimeTravelFeatureDescriptions: { [feature in TimeTravelFeature]: string } = {
+    'events': 'moving between the events of a trace',
+    'dataBreakpoints': 'data breakpoints',
+    'stepBackInto': 'stepping back into calls'
+};
+
+/**
+ * A line to run a replay to, before or after the current point in the recording.
+ */
+interface IGotoTarget {
+    path: string;
+    line: number;
+    later: boolean;
+}
+
 export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
     private static NODE = 'node';
     private static NODE_TERMINATION_POLL_INTERVAL = 3000;
+    private static RUNINTERMINAL_TIMEOUT = 5000;
+    private static PAUSE_TIMEOUT = 60000;
     private static DEBUG_BRK_DEP_MSG = /\(node:\d+\) \[DEP0062\] DeprecationWarning: `node --inspect --debug-brk` is deprecated\. Please use `node --inspect-brk` instead\.\s*/;
 
     public static NODE_INTERNALS = '<node_internals>';
@@ -37,6 +63,7 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
     protected _launchAttachArgs: ICommonRequestArgs;
 
     private _loggedTargetVersion: boolean;
+    private _targetVersion: string;
     private _nodeProcessId: number;
     private _pollForNodeProcess: boolean;
 
@@ -57,9 +84,41 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
     //Overrides for Time-travel node adapter -- can refactor into extension that extends node2?
 
     private _pendingTTDLaunch: boolean = false;
-    private _runtimeArgsForTTD: string[];
+    private _pendingTTDLaunchId: number | undefined;
+    private _abortedTTDLaunches = new Set<number>();
+    private _runtimeArgsForTTD: string[] = [];
     private _runtimeExecutableForTTD: string;
     private _programPathForTTD: string;
+    private _programArgsForTTD: string[];
+    private _envKeysForTTD: string[];
+    private _cwdForTTD: string;
+    private _configurationNameForTTD: string;
+    private _traceRootForTTD: string;
+    private _replayTraceDirectory: string;
+    private _autoTraceOnException: string;
+    private _autoTraceExceptionTypes: string[];
+    private _autoTraceOpenReplay: boolean;
+    private _traceRetention: traceUtils.ITraceRetention;
+    private _userExceptionFilters: string[] = [];
+    private _scriptShimDirectory: string;
+    private _clientLinesStartAt1 = true;
+    private _clientColumnsStartAt1 = true;
+
+    // Data breakpoints watch a property of an object or scope, so remember the object behind each variables reference
+    private _pausedCallFrames: Crdp.Debugger.CallFrame[] = [];
+    private _callFramesByFrameId = new Map<number, Crdp.Debugger.CallFrame>();
+    private _objectIdsByReference = new Map<number, string>();
+    private _objectIdsByEvaluateName = new Map<string, string>();
+    private _evaluateNamesByVariable = new Map<string, string>();
+    private _dataBreakpointIds = new Map<string, string>();
+
+    private _gotoTargets = new Map<number, IGotoTarget>();
+    private _pauseWaiter: { resolve: (notification: Crdp.Debugger.PausedEvent) => void, reject: (reason: any) => void };
+    private _gotoTargetIdGenerator = 0;
+    private _deferStops = 0;
+    private _deferredPause: Crdp.Debugger.PausedEvent | undefined;
+
+    private _unsupportedTimeTravelFeatures = new Set<TimeTravelFeature>();
 
     private _idGenerator = 0;
 
@@ -69,26 +128,111 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
         return this._runtimeExecutableForTTD && liveFlag && !replayFlag;
     }
 
+    private isTTDReplayMode(): boolean {
+        return this._runtimeArgsForTTD.some((param) => param.startsWith("--replay-debug"));
+    }
+
     private getLogDirectory(): string {
-        return path.join(path.dirname(this._programPathForTTD), "_ttd_log_");
+        return this._traceRootForTTD;
     }
 
-    private makeReplayConfig(tracingDir: string): object {
+    private resolveTraceRoot(args: ICommonRequestArgs): Promise<void> {
+        const traceRoot = args.traceDirectory ?
+            traceUtils.resolveTraceDirectory(args.traceDirectory, this._cwdForTTD) :
+            traceUtils.defaultTraceRoot(this._cwdForTTD);
+
+        if (!path.isAbsolute(traceRoot)) {
+            return Promise.reject(errors.traceDirectoryNotAbsolute(traceRoot));
+        }
+
+        if (!pathUtils.createTargetDirectory(traceRoot)) {
+            return Promise.reject(errors.cannotCreateTraceDirectory(traceRoot));
+        }
+
+        this._traceRootForTTD = traceRoot;
+        return Promise.resolve();
+    }
+
+    /**
+     * Returns the trace a replay opens: the one in 'traceDirectory', or else the most recent one in the default trace
+     * root of 'cwd'.
+     */
+    private getReplayTraceDirectory(args: ILaunchRequestArguments): string {
+        const traceRoot = args.traceDirectory ?
+            traceUtils.resolveTraceDirectory(args.traceDirectory, args.cwd) :
+            traceUtils.defaultTraceRoot(args.cwd);
+
+        return traceUtils.findTraceDirectory(traceRoot);
+    }
+
+    private resolveReplayTrace(args: ILaunchRequestArguments): Promise<void> {
+        if (!args.traceDirectory && !args.cwd) {
+            return Promise.reject(errors.replayNeedsTraceDirectory());
+        }
+
+        const traceDir = this.getReplayTraceDirectory(args);
+        if (!path.isAbsolute(traceDir)) {
+            return Promise.reject(errors.traceDirectoryNotAbsolute(traceDir));
+        }
+
+        const traceError = traceUtils.validateTrace(traceDir);
+        if (traceError) {
+            return Promise.reject(traceError);
+        }
+
+        // the runtime replays the trace, there is no program to launch
+        this._replayTraceDirectory = traceDir;
+        traceUtils.lockTraceForReplay(traceDir);
+        args.program = undefined;
+        args.runtimeArgs = (args.runtimeArgs || []).concat([`--replay-debug=${traceDir}`]);
+        return Promise.resolve();
+    }
+
+    /**
+     * A trace recorded on another machine refers to its scripts by the paths they had there. Unless 'remoteRoot' is
+     * given, map the working directory recorded in the manifest to 'localRoot' (or 'cwd') when the recorded program
+     * does not exist locally.
+     */
+    private resolveReplayPathMapping(args: ILaunchRequestArguments): void {
+        if (args.remoteRoot || (!args.traceDirectory && !args.cwd)) {
+            return;
+        }
+
+        const traceDir = this.getReplayTraceDirectory(args);
+        const manifest = traceUtils.readTraceManifest(traceDir);
+        const localRoot = args.localRoot || args.cwd;
+        if (!manifest || !manifest.cwd || !localRoot || (manifest.program && fs.existsSync(manifest.program))) {
+            return;
+        }
+
+        logger.log(`Replaying a trace recorded in ${manifest.cwd}, mapping its paths to ${localRoot}`);
+        args.remoteRoot = manifest.cwd;
+        args.localRoot = localRoot;
+    }
+
+    private makeReplayConfig(tracingDir: string, launch: boolean, captureTime: Date): object {
+        const config = traceUtils.makeReplayConfiguration(tracingDir, `Time-Travel Replay (${captureTime.toLocaleTimeString()})`);
+        config["runtimeExecutable"] = this._runtimeExecutableForTTD;
+
         return {
-            "launch": true,
-            "config": {
-                "type": "node",
-                "request": "launch",
-                "name": "Time-Travel Replay",
-                "protocol": "inspector",
-                "stopOnEntry": true,
-                "runtimeExecutable": this._runtimeExecutableForTTD,
-                "runtimeArgs": [
-                    `--replay-debug=${tracingDir}`
-                ],
-                "console": "internalConsole",
-                "timeout": 30000
-            }
+            "launch": launch,
+            "config": config
+        };
+    }
+
+    private makeTraceManifest(tracingDir: string, captureTime: Date): traceUtils.ITraceManifest {
+        return {
+            manifestVersion: traceUtils.TRACE_MANIFEST_VERSION,
+            captureTime: captureTime.getTime(),
+            files: traceUtils.getTraceFileSizes(tracingDir),
+            program: this._programPathForTTD,
+            args: this._programArgsForTTD,
+            envKeys: this._envKeysForTTD,
+            cwd: this._cwdForTTD,
+            runtimeExecutable: this._runtimeExecutableForTTD,
+            runtimeVersion: this._targetVersion,
+            adapterVersion: ADAPTER_VERSION,
+            configurationName: this._configurationNameForTTD
         };
     }
 
@@ -96,7 +240,17 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
         this._session.sendEvent(new Event("ttdLaunch", { state: state, id: id, payload: data }));
     }
 
-    private launchSetupForReverseExecution(): Promise<void | string> {
+    /**
+     * Tell the client where in the recording the replay is paused.
+     */
+    private sendReplayPosition(): Promise<void> {
+        return this.callTimeTravel('events', timeTravel => timeTravel.getCurrentEventIndex()).then(({ eventIndex, eventCount }) => {
+            const position: IReplayPosition = { eventIndex, eventCount };
+            this._session.sendEvent(new Event('ttdReplayPosition', position));
+        }, e => logger.warn('Failed to get the replay position: ' + e.message));
+    }
+
+    private launchSetupForReverseExecution(launchReplay: boolean = true): Promise<void | string> {
         if (this._pendingTTDLaunch) {
             return Promise.resolve(JSON.stringify({ "launch": false }));
         }
@@ -105,7 +259,10 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
 
         this.launchStatusNotify("start", launchID);
         this._pendingTTDLaunch = true;
-        const logDir = this.getLogDirectory();
+        this._pendingTTDLaunchId = launchID;
+        const captureTime = new Date();
+        const traceRoot = this.getLogDirectory();
+        const logDir = traceUtils.allocateTraceDirectory(traceRoot, captureTime);
 
         return new Promise((resolve, reject) => {
             setImmediate(() => {
@@ -118,25 +275,617 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
             });
         })
             .then(() => {
+                if (this._abortedTTDLaunches.has(launchID)) {
+                    return undefined;
+                }
+
                 this.launchStatusNotify("write", launchID);
                 return (<TimeTravelRuntime>this.chrome).TimeTravel.writeTTDLog({ uri: logDir });
             })
             .then(() => {
-                if (!fs.existsSync(path.join(logDir, "ttdlog.log"))) {
+                if (this._abortedTTDLaunches.has(launchID)) {
+                    // the write itself cannot be interrupted, so drop whatever it produced
+                    pathUtils.deleteTargetDirectory(logDir);
+                    this.launchStatusNotify("abort", launchID);
+                    this.endTTDLaunch();
+                    return JSON.stringify({ "launch": false });
+                } else if (!fs.existsSync(path.join(logDir, "ttdlog.log"))) {
                     this.launchStatusNotify("fail", launchID, "Could not write TTD trace -- has synchronous module loading completed?");
+                    this.endTTDLaunch();
                     return JSON.stringify({ "launch": false });
                 } else {
-                    this.launchStatusNotify("complete", launchID, this.makeReplayConfig(logDir));
-                    this._pendingTTDLaunch = false;
-                    return JSON.stringify({ "launch": true });
+                    const manifest = this.makeTraceManifest(logDir, captureTime);
+                    if (!traceUtils.writeTraceManifest(logDir, manifest)) {
+                        logger.warn(`Could not write the time-travel trace manifest in ${logDir}`);
+                    }
+
+                    traceUtils.addTraceEntry(traceRoot, { name: path.basename(logDir), captureTime: manifest.captureTime, program: manifest.program });
+                    this.applyTraceRetention(traceRoot);
+                    this.launchStatusNotify("complete", launchID, this.makeReplayConfig(logDir, launchReplay, captureTime));
+                    this.endTTDLaunch();
+                    return JSON.stringify({ "launch": launchReplay });
                 }
             })
             .catch((ex) => {
                 this.launchStatusNotify("fail", launchID, JSON.stringify(ex));
+                this.endTTDLaunch();
                 return JSON.stringify({ "launch": false });
             });
     }
 
+    private applyTraceRetention(traceRoot: string): void {
+        for (const [name, reason] of traceUtils.applyTraceRetention(traceRoot, this._traceRetention)) {
+            this._session.sendEvent(new OutputEvent(`Removed time-travel trace '${name}' (${reason}).\n`, 'console'));
+        }
+    }
+
+    /**
+     * Whether this pause is an exception that 'autoTraceOnException' asks to write a trace for.
+     */
+    private isAutoTraceExceptionPause(notification: Crdp.Debugger.PausedEvent): boolean {
+        return !!this._autoTraceOnException && notification.reason === 'exception' && this.isTTDLiveMode();
+    }
+
+    private shouldAutoTrace(notification: Crdp.Debugger.PausedEvent): boolean {
+        return (this._autoTraceOnException === 'all' || this.isUncaughtException(notification)) &&
+            this.isAutoTraceExceptionType(notification);
+    }
+
+    /**
+     * Whether the exception is one of 'autoTraceExceptionTypes', by its class name or the start of its description.
+     */
+    private isAutoTraceExceptionType(notification: Crdp.Debugger.PausedEvent): boolean {
+        if (this._autoTraceExceptionTypes.length === 0) {
+            return true;
+        }
+
+        const exception: Crdp.Runtime.RemoteObject = notification.data || {};
+        return this._autoTraceExceptionTypes.some(type =>
+            exception.className === type || (exception.description || '').startsWith(type));
+    }
+
+    /**
+     * Whether the user's own exception breakpoint settings ask to stop on this exception.
+     */
+    private isUserExceptionPause(notification: Crdp.Debugger.PausedEvent): boolean {
+        return this._userExceptionFilters.indexOf('all') >= 0 ||
+            (this._userExceptionFilters.indexOf('uncaught') >= 0 && this.isUncaughtException(notification));
+    }
+
+    private isUncaughtException(notification: Crdp.Debugger.PausedEvent): boolean {
+        return !!(notification.data && notification.data.uncaught);
+    }
+
+    /**
+     * Custom request: capture a trace of the live session without pausing it and without launching a replay session.
+     * Progress is reported through the same 'ttdLaunch' events as a step back.
+     */
+    public ttdWriteTrace(): Promise<void> {
+        if (!this.isTTDLiveMode()) {
+            return Promise.reject(errors.notLiveTimeTravelSession());
+        }
+
+        return this.launchSetupForReverseExecution(/*launchReplay=*/false)
+            .then(() => { /* make void */ });
+    }
+
+    /**
+     * Custom request: abandon the trace write with the given id. No replay is launched for it and the partial trace
+     * is deleted once the runtime is done writing.
+     */
+    public ttdAbortTrace(args: { id: number }): void {
+        // a late cancel of a finished launch must not abort the next one
+        if (this._pendingTTDLaunch && args.id === this._pendingTTDLaunchId) {
+            this._abortedTTDLaunches.add(args.id);
+        }
+    }
+
+    private endTTDLaunch(): void {
+        this._pendingTTDLaunch = false;
+        this._pendingTTDLaunchId = undefined;
+        this._abortedTTDLaunches.clear();
+    }
+
+    /**
+     * Custom request: bring this session to the front of the client, e.g. when returning to it from one of its
+     * replays. A paused target is reported as stopped again so the client focuses its call stack.
+     */
+    public ttdRevealSession(): { paused: boolean } {
+        const paused = this._pausedCallFrames.length !== 0;
+        if (paused) {
+            this._session.sendEvent(new StoppedEvent('pause', this.threads().threads[0].id));
+        }
+
+        return { paused };
+    }
+
+    /**
+     * Custom request: list the top-level event-loop callbacks recorded in the trace that is replayed.
+     */
+    public async ttdGetEventTimeline(): Promise<{ events: ITimelineEvent[] }> {
+        const response = await this.callTimeTravel('events', timeTravel => timeTravel.getEventTimeline());
+        const events = await Promise.all(response.events.map(event => this.toTimelineEvent(event)));
+        return { events };
+    }
+
+    /**
+     * Custom request: move the replay to the start of the event 'eventIndex' of the timeline. The target pauses there.
+     */
+    public ttdMoveToEvent(args: { eventIndex: number }): Promise<void> {
+        return this.callTimeTravel('events', timeTravel => timeTravel.moveToEvent({ eventIndex: args.eventIndex }));
+    }
+
+    /**
+     * Find out which optional features of the TimeTravel domain the runtime of a replay implements. The probes only
+     * query the replay, and a runtime without a method answers with 'method not found'.
+     */
+    private async detectTimeTravelFeatures(): Promise<void> {
+        const timeTravel = (<TimeTravelReplayRuntime>this.chrome).TimeTravel;
+        const probes: [TimeTravelFeature, () => Promise<any>][] = [
+            ['events', () => timeTravel.getCurrentEventIndex()],
+            // an unknown id is rejected by a runtime that has the method
+            ['dataBreakpoints', () => timeTravel.removeDataBreakpoint({ breakpointId: '' })]
+        ];
+
+        await Promise.all(probes.map(([feature, probe]) => probe().catch(e => {
+            if (utils.isMethodNotFound(e)) {
+                logger.log(`The runtime does not support the time-travel feature '${feature}'`);
+                this._unsupportedTimeTravelFeatures.add(feature);
+            }
+        })));
+
+        this.sendReplayFeatures();
+    }
+
+    private supportsTimeTravelFeature(feature: TimeTravelFeature): boolean {
+        return this.isTTDReplayMode() && this.supportsStepBack() && !this._unsupportedTimeTravelFeatures.has(feature);
+    }
+
+    private sendReplayFeatures(): void {
+        const features: IReplayFeatures = {
+            events: this.supportsTimeTravelFeature('events'),
+            dataBreakpoints: this.supportsTimeTravelFeature('dataBreakpoints'),
+            stepBackInto: this.supportsTimeTravelFeature('stepBackInto')
+        };
+        this._session.sendEvent(new Event('ttdReplayFeatures', features));
+    }
+
+    /**
+     * Call an optional method of the TimeTravel domain that belongs to 'feature'. A runtime without it is reported
+     * with a message saying so rather than the protocol error.
+     */
+    private callTimeTravel<T>(feature: TimeTravelFeature, call: (timeTravel: TimeTravelReplayClient) => Promise<T>): Promise<T> {
+        if (!this.isTTDReplayMode()) {
+            return Promise.reject(errors.notReplaySession());
+        }
+        if (!this.supportsTimeTravelFeature(feature)) {
+            return Promise.reject(errors.timeTravelFeatureNotSupported(TimeTravelFeatureDescriptions[feature]));
+        }
+
+        return call((<TimeTravelReplayRuntime>this.chrome).TimeTravel).catch(e => {
+            if (utils.isMethodNotFound(e)) {
+                this._unsupportedTimeTravelFeatures.add(feature);
+                this.sendReplayFeatures();
+                return Promise.reject(errors.timeTravelFeatureNotSupported(TimeTravelFeatureDescriptions[feature]));
+            }
+
+            return Promise.reject(e);
+        });
+    }
+
+    private async toTimelineEvent(event: ITimeTravelEvent): Promise<ITimelineEvent> {
+        const timelineEvent: ITimelineEvent = {
+            index: event.eventIndex,
+            kind: event.kind,
+            name: event.functionName || '(anonymous function)',
+            timestamp: event.timestamp,
+            duration: event.duration
+        };
+
+        const script = event.scriptId && this.scriptsById.get(event.scriptId);
+        if (!script || typeof event.lineNumber !== 'number') {
+            return timelineEvent;
+        }
+
+        return Object.assign(timelineEvent, await this.toClientLocation(script.url, event.lineNumber, event.columnNumber || 0));
+    }
+
+    /**
+     * Map a location of the target to the source, line and column shown by the client.
+     */
+    private async toClientLocation(url: string, lineNumber: number, columnNumber: number): Promise<{ source: DebugProtocol.Source, line: number, column: number }> {
+        let line = lineNumber;
+        let column = columnNumber;
+        const clientPath = this.pathTransformer.getClientPathFromTargetPath(url) || url;
+        let displayPath = this.realPathToDisplayPath(clientPath);
+
+        const mapped = await this.sourceMapTransformer.mapToAuthored(clientPath, line, column);
+        if (mapped && mapped.source) {
+            displayPath = mapped.source;
+            line = mapped.line;
+            column = mapped.column;
+        }
+
+        return {
+            source: { name: path.basename(displayPath), path: displayPath },
+            line: this._clientLinesStartAt1 ? line + 1 : line,
+            column: this._clientColumnsStartAt1 ? column + 1 : column
+        };
+    }
+
+    /**
+     * Custom request: list the bookmarks saved with the trace that is replayed.
+     */
+    public async ttdGetBookmarks(): Promise<{ bookmarks: IReplayBookmark[] }> {
+        if (!this.isTTDReplayMode()) {
+            return Promise.reject(errors.notReplaySession());
+        }
+
+        const bookmarks = traceUtils.readTraceBookmarks(this._replayTraceDirectory);
+        return { bookmarks: await Promise.all(bookmarks.map(bookmark => this.toReplayBookmark(bookmark))) };
+    }
+
+    /**
+     * Custom request: bookmark the position the replay is paused at with 'label'. The bookmark is saved in the trace
+     * directory.
+     */
+    public async ttdAddBookmark(args: { label: string }): Promise<{ bookmark: IReplayBookmark }> {
+        if (!this.isTTDReplayMode()) {
+            return Promise.reject(errors.notReplaySession());
+        }
+
+        const { eventIndex } = await this.callTimeTravel('events', timeTravel => timeTravel.getCurrentEventIndex());
+        const bookmark: traceUtils.ITraceBookmark = {
+            id: crypto.randomBytes(4).toString('hex'),
+            label: args.label,
+            eventIndex,
+            created: Date.now()
+        };
+
+        const location = this._pausedCallFrames.length !== 0 ? this._pausedCallFrames[0].location : undefined;
+        const script = location && this.scriptsById.get(location.scriptId);
+        if (script) {
+            bookmark.url = script.url;
+            bookmark.lineNumber = location.lineNumber;
+            bookmark.columnNumber = location.columnNumber || 0;
+        }
+
+        const bookmarks = traceUtils.readTraceBookmarks(this._replayTraceDirectory).concat([bookmark]);
+        if (!traceUtils.writeTraceBookmarks(this._replayTraceDirectory, bookmarks)) {
+            return Promise.reject(errors.cannotSaveBookmarks(this._replayTraceDirectory));
+        }
+
+        return { bookmark: await this.toReplayBookmark(bookmark) };
+    }
+
+    /**
+     * Custom request: delete the bookmark 'id' from the trace.
+     */
+    public ttdRemoveBookmark(args: { id: string }): Promise<void> {
+        if (!this.isTTDReplayMode()) {
+            return Promise.reject(errors.notReplaySession());
+        }
+
+        const bookmarks = traceUtils.readTraceBookmarks(this._replayTraceDirectory);
+        const remaining = bookmarks.filter(bookmark => bookmark.id !== args.id);
+        if (remaining.length === bookmarks.length) {
+            return Promise.reject(errors.bookmarkNotFound(args.id));
+        }
+        if (!traceUtils.writeTraceBookmarks(this._replayTraceDirectory, remaining)) {
+            return Promise.reject(errors.cannotSaveBookmarks(this._replayTraceDirectory));
+        }
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Custom request: move the replay to the bookmark 'id'. The replay moves to the start of the bookmarked event and
+     * then forward to the bookmarked location.
+     */
+    public async ttdMoveToBookmark(args: { id: string }): Promise<void> {
+        if (!this.isTTDReplayMode()) {
+            return Promise.reject(errors.notReplaySession());
+        }
+
+        if (!this.supportsTimeTravelFeature('events')) {
+            return Promise.reject(errors.timeTravelFeatureNotSupported(TimeTravelFeatureDescriptions['events']));
+        }
+
+        const bookmark = traceUtils.readTraceBookmarks(this._replayTraceDirectory).find(b => b.id === args.id);
+        if (!bookmark) {
+            return Promise.reject(errors.bookmarkNotFound(args.id));
+        }
+
+        return this.deferStops(async () => {
+            const notification = await this.waitForPause(() => this.callTimeTravel('events', timeTravel => timeTravel.moveToEvent({ eventIndex: bookmark.eventIndex })));
+            if (bookmark.url === undefined) {
+                return;
+            }
+
+            const location = notification.callFrames.length !== 0 ? notification.callFrames[0].location : undefined;
+            const script = location && this.scriptsById.get(location.scriptId);
+            if (!script || script.url !== bookmark.url || location.lineNumber !== bookmark.lineNumber) {
+                await this.runToLocation(bookmark.url, bookmark.lineNumber, bookmark.columnNumber || 0, /*later=*/true);
+            }
+        });
+    }
+
+    private async toReplayBookmark(bookmark: traceUtils.ITraceBookmark): Promise<IReplayBookmark> {
+        const result: IReplayBookmark = {
+            id: bookmark.id,
+            label: bookmark.label,
+            eventIndex: bookmark.eventIndex,
+            created: bookmark.created
+        };
+
+        if (bookmark.url === undefined || typeof bookmark.lineNumber !== 'number') {
+            return result;
+        }
+
+        return Object.assign(result, await this.toClientLocation(bookmark.url, bookmark.lineNumber, bookmark.columnNumber || 0));
+    }
+
+    public stackTrace(args: DebugProtocol.StackTraceArguments): Promise<IStackTraceResponseBody> {
+        return super.stackTrace(args).then(response => {
+            // async frames come after the paused call frames and have no scopes
+            const startFrame = args.startFrame || 0;
+            response.stackFrames.forEach((frame, i) => {
+                const callFrame = this._pausedCallFrames[startFrame + i];
+                if (callFrame) {
+                    this._callFramesByFrameId.set(frame.id, callFrame);
+                }
+            });
+
+            return response;
+        });
+    }
+
+    public scopes(args: DebugProtocol.ScopesArguments): IScopesResponseBody {
+        const response = super.scopes(args);
+        const callFrame = this._callFramesByFrameId.get(args.frameId);
+        if (callFrame) {
+            // the scopes follow the scope chain of the frame, after the exception scope if there is one
+            const offset = response.scopes.length - callFrame.scopeChain.length;
+            callFrame.scopeChain.forEach((scope, i) => {
+                const result = response.scopes[offset + i];
+                if (result && scope.object.objectId) {
+                    this._objectIdsByReference.set(result.variablesReference, scope.object.objectId);
+                }
+            });
+        }
+
+        return response;
+    }
+
+    public variables(args: DebugProtocol.VariablesArguments): Promise<IVariablesResponseBody> {
+        return super.variables(args).then(response => {
+            if (response) {
+                response.variables.forEach(variable => {
+                    if (!variable.evaluateName) {
+                        return;
+                    }
+
+                    this._evaluateNamesByVariable.set(`${args.variablesReference}:${variable.name}`, variable.evaluateName);
+                    const objectId = this._objectIdsByEvaluateName.get(variable.evaluateName);
+                    if (variable.variablesReference && objectId) {
+                        this._objectIdsByReference.set(variable.variablesReference, objectId);
+                    }
+                });
+            }
+
+            return response;
+        });
+    }
+
+    protected createPropertyContainer(object: Crdp.Runtime.RemoteObject, evaluateName: string): variables.IVariableContainer {
+        if (object.objectId && evaluateName) {
+            this._objectIdsByEvaluateName.set(evaluateName, object.objectId);
+        }
+
+        return super.createPropertyContainer(object, evaluateName);
+    }
+
+    /**
+     * A data breakpoint can watch a variable of a scope or a property of an object in a replay session. Reverse
+     * continue stops at the most recent write to it, continue at the next one.
+     */
+    public dataBreakpointInfo(args: DebugProtocol.DataBreakpointInfoArguments): DebugProtocol.DataBreakpointInfoResponse['body'] {
+        const evaluateName = this._evaluateNamesByVariable.get(`${args.variablesReference}:${args.name}`) || args.name;
+        if (!this.supportsTimeTravelFeature('dataBreakpoints')) {
+            return { dataId: null, description: `Data breakpoints on '${evaluateName}' need a time-travel replay session whose runtime supports them.` };
+        }
+
+        const objectId = args.variablesReference !== undefined && this._objectIdsByReference.get(args.variablesReference);
+        if (!objectId) {
+            return { dataId: null, description: `Writes to '${evaluateName}' cannot be watched.` };
+        }
+
+        return {
+            dataId: JSON.stringify([objectId, args.name]),
+            description: evaluateName,
+            accessTypes: ['write'],
+            canPersist: false
+        };
+    }
+
+    public async setDataBreakpoints(args: DebugProtocol.SetDataBreakpointsArguments): Promise<DebugProtocol.SetDataBreakpointsResponse['body']> {
+        if (!this.supportsTimeTravelFeature('dataBreakpoints')) {
+            return { breakpoints: args.breakpoints.map(() => ({ verified: false })) };
+        }
+
+        const dataIds = new Set(args.breakpoints.map(bp => bp.dataId));
+        for (const [dataId, breakpointId] of Array.from(this._dataBreakpointIds)) {
+            if (!dataIds.has(dataId)) {
+                this._dataBreakpointIds.delete(dataId);
+                await this.callTimeTravel('dataBreakpoints', timeTravel => timeTravel.removeDataBreakpoint({ breakpointId }))
+                    .catch(e => logger.warn(`Failed to remove data breakpoint ${breakpointId}: ${e.message}`));
+            }
+        }
+
+        const breakpoints = await Promise.all(args.breakpoints.map(async (bp): Promise<DebugProtocol.Breakpoint> => {
+            if (bp.accessType && bp.accessType !== 'write') {
+                return { verified: false, message: 'Only writes can be watched in a time-travel replay session.' };
+            }
+
+            try {
+                let breakpointId = this._dataBreakpointIds.get(bp.dataId);
+                if (!breakpointId) {
+                    const [objectId, propertyName] = <[string, string]>JSON.parse(bp.dataId);
+                    const response = await this.callTimeTravel('dataBreakpoints', timeTravel => timeTravel.setDataBreakpoint({ objectId, propertyName }));
+                    breakpointId = response.breakpointId;
+                    this._dataBreakpointIds.set(bp.dataId, breakpointId);
+                }
+
+                return { verified: true };
+            } catch (e) {
+                return { verified: false, message: e.message || 'The time-travel runtime does not support data breakpoints.' };
+            }
+        }));
+
+        return { breakpoints };
+    }
+
+    /**
+     * A replay can run to the most recent earlier or the next later execution of a line.
+     */
+    public gotoTargets(args: DebugProtocol.GotoTargetsArguments): Promise<DebugProtocol.GotoTargetsResponse['body']> {
+        if (!this.isTTDReplayMode()) {
+            return Promise.reject(errors.notReplaySession());
+        }
+        if (!args.source.path) {
+            return Promise.resolve({ targets: [] });
+        }
+
+        // the first target is the one 'Jump to Cursor' goes to
+        const targets = [false, true].map(later => {
+            const id = ++this._gotoTargetIdGenerator;
+            this._gotoTargets.set(id, { path: args.source.path, line: args.line, later });
+            return { id, label: later ? 'Next Execution' : 'Previous Execution', line: args.line };
+        });
+
+        return Promise.resolve({ targets });
+    }
+
+    public async goto(args: DebugProtocol.GotoArguments): Promise<void> {
+        const target = this._gotoTargets.get(args.targetId);
+        if (!target) {
+            return Promise.reject(errors.invalidGotoTarget());
+        }
+
+        const [url, location] = await this.getGeneratedLocation(target);
+        const [reached, notification] = await this.runToLocation(url, location.lineNumber, location.columnNumber, target.later)
+            .catch(e => Promise.reject(errors.cannotRunToLine(target.line, e.message || e.format)));
+        if (!reached && notification.reason !== 'exception' && notification.reason !== 'promiseRejection') {
+            return Promise.reject(errors.lineNeverRan(target.line, target.later));
+        }
+    }
+
+    /**
+     * Run the replay back or forward to a location of the target, using a temporary breakpoint or the breakpoint the
+     * user already has there. Other breakpoints on the way are run past. Returns whether the replay stopped at the
+     * location, and the pause it stopped with; it stops elsewhere at an exception or the end of the recording.
+     */
+    private async runToLocation(url: string, lineNumber: number, columnNumber: number, later: boolean): Promise<[boolean, Crdp.Debugger.PausedEvent]> {
+        const [result] = await this.addBreakpoints(url, [new InternalSourceBreakpoint({ line: lineNumber, column: columnNumber })]);
+        const temporaryBreakpointId = result && result.breakpointId;
+        const breakpointId = temporaryBreakpointId || (result && this.findCommittedBreakpoint(url, result.actualLocation));
+        if (!breakpointId) {
+            throw new Error(`cannot set a breakpoint at ${url}:${lineNumber + 1}`);
+        }
+
+        return this.deferStops(async (): Promise<[boolean, Crdp.Debugger.PausedEvent]> => {
+            try {
+                const timeTravel = (<TimeTravelRuntime>this.chrome).TimeTravel;
+                const run = () => later ? this.chrome.Debugger.resume() : timeTravel.reverse();
+
+                let notification = await this.waitForPause(run);
+                while (notification.hitBreakpoints && notification.hitBreakpoints.length !== 0 && notification.hitBreakpoints.indexOf(breakpointId) < 0) {
+                    notification = await this.waitForPause(run);
+                }
+
+                const reached = !!notification.hitBreakpoints && notification.hitBreakpoints.indexOf(breakpointId) >= 0;
+                if (reached && temporaryBreakpointId && this._expectingStopReason) {
+                    // the temporary breakpoint is not the user's, the pause is reported with the reason of the request
+                    const hitBreakpoints = notification.hitBreakpoints.filter(id => id !== temporaryBreakpointId);
+                    this._deferredPause = Object.assign({}, notification, { hitBreakpoints });
+                }
+
+                return [reached, notification];
+            } finally {
+                if (temporaryBreakpointId) {
+                    await this.chrome.Debugger.removeBreakpoint({ breakpointId: temporaryBreakpointId })
+                        .catch(e => logger.warn(`Failed to remove temporary breakpoint ${temporaryBreakpointId}: ${e.message}`));
+                }
+            }
+        });
+    }
+
+    /**
+     * Run 'move', which may pause the replay several times, and report only the pause it ends with to the client. The
+     * pauses on the way are not final and would make the client flicker between stopped and running.
+     */
+    private async deferStops<T>(move: () => Promise<T>): Promise<T> {
+        this._deferStops++;
+        try {
+            return await move();
+        } finally {
+            const notification = this._deferredPause;
+            if (--this._deferStops === 0 && notification) {
+                this._deferredPause = undefined;
+                await this.onPaused(notification);
+            }
+        }
+    }
+
+    /**
+     * Returns the id of the user's breakpoint at 'location' of 'url', if there is one.
+     */
+    private findCommittedBreakpoint(url: string, location: Crdp.Debugger.Location | undefined): string | undefined {
+        const committed = location && this.committedBreakpointsByUrl.get(url);
+        const breakpoint = committed && committed.find(bp => !!bp.actualLocation &&
+            bp.actualLocation.lineNumber === location.lineNumber &&
+            (bp.actualLocation.columnNumber || 0) === (location.columnNumber || 0));
+        return breakpoint && breakpoint.breakpointId;
+    }
+
+    /**
+     * Start the replay with 'run' and wait for the next pause. Fails if the replay does not pause in time or the
+     * session ends first.
+     */
+    private async waitForPause(run: () => Promise<any>): Promise<Crdp.Debugger.PausedEvent> {
+        let timer: NodeJS.Timer;
+        const paused = new Promise<Crdp.Debugger.PausedEvent>((resolve, reject) => {
+            this._pauseWaiter = { resolve, reject };
+            timer = setTimeout(() => reject(errors.replayDidNotPause(NodeDebugTTDAdapter.PAUSE_TIMEOUT / 1000)), NodeDebugTTDAdapter.PAUSE_TIMEOUT);
+        });
+
+        try {
+            await run();
+            return await paused;
+        } finally {
+            clearTimeout(timer);
+            this._pauseWaiter = undefined;
+        }
+    }
+
+    private async getGeneratedLocation(target: IGotoTarget): Promise<[string, { lineNumber: number, columnNumber: number }]> {
+        const realPath = this.displayPathToRealPath(target.path);
+        let lineNumber = this._clientLinesStartAt1 ? target.line - 1 : target.line;
+        let columnNumber = 0;
+
+        const generatedPath = await this.sourceMapTransformer.getGeneratedPathFromAuthoredPath(realPath) || realPath;
+        if (generatedPath !== realPath) {
+            const mapped = await this.sourceMapTransformer.mapToGenerated(realPath, lineNumber, columnNumber);
+            if (mapped) {
+                lineNumber = mapped.line;
+                columnNumber = mapped.column;
+            }
+        }
+
+        const url = this.pathTransformer.getTargetPathFromClientPath(generatedPath) || generatedPath;
+        return [url, { lineNumber, columnNumber }];
+    }
+
     public stepBack(): Promise<void> {
         if (this.isTTDLiveMode()) {
             return this.launchSetupForReverseExecution() as undefined; //force types to be compatible with a hack
@@ -157,6 +906,59 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
         }
     }
 
+    /**
+     * Custom request: step back into the function called by the previous statement, stopping at its last statement.
+     * Only some runtimes can do this.
+     */
+    public ttdStepBackInto(): Promise<void> {
+        this._expectingStopReason = 'step';
+        return this.callTimeTravel('stepBackInto', timeTravel => timeTravel.stepBackInto())
+            .then(() => { /* make void */ }, e => {
+                // ignore other failures - client can send the request when the target is no longer paused
+                if (!this.supportsTimeTravelFeature('stepBackInto')) {
+                    this._expectingStopReason = undefined;
+                    return Promise.reject(e);
+                }
+
+                return undefined;
+            });
+    }
+
+    /**
+     * Custom request: step back out of the current function, stopping at its call site in the caller. The replay
+     * reverses to the call site until it stops there in the calling frame, which passes over recursive calls made
+     * from the same place. An event-loop callback has no caller in the recording, so stepping out of it stops at the
+     * start of its event.
+     */
+    public async ttdStepBackOut(): Promise<void> {
+        if (!this.isTTDReplayMode()) {
+            return Promise.reject(errors.notReplaySession());
+        }
+
+        const callFrames = this._pausedCallFrames;
+        const caller = callFrames[1];
+        const script = caller && this.scriptsById.get(caller.location.scriptId);
+
+        this._expectingStopReason = 'step';
+        return this.deferStops(async () => {
+            if (!script) {
+                const { eventIndex } = await this.callTimeTravel('events', timeTravel => timeTravel.getCurrentEventIndex());
+                await this.waitForPause(() => this.callTimeTravel('events', timeTravel => timeTravel.moveToEvent({ eventIndex })));
+                return;
+            }
+
+            const depth = callFrames.length - 1;
+            const runToCaller = () => this.runToLocation(script.url, caller.location.lineNumber, caller.location.columnNumber || 0, /*later=*/false);
+            let [reached, notification] = await runToCaller();
+            while (reached && notification.callFrames.length > depth) {
+                [reached, notification] = await runToCaller();
+            }
+        }).catch(e => {
+            this._expectingStopReason = undefined;
+            return Promise.reject(e);
+        });
+    }
+
     ////////////////
 
     /**
@@ -168,6 +970,8 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
 
     public initialize(args: DebugProtocol.InitializeRequestArguments): DebugProtocol.Capabilities {
         this._adapterID = args.adapterID;
+        this._clientLinesStartAt1 = args.linesStartAt1 !== false;
+        this._clientColumnsStartAt1 = args.columnsStartAt1 !== false;
         this._promiseRejectExceptionFilterEnabled = this.isExtensionHost();
 
         if (args.locale) {
@@ -180,6 +984,11 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
     }
 
     public async launch(args: ILaunchRequestArguments): Promise<void> {
+        if (args.replay) {
+            // the path transformer picks up 'localRoot' and 'remoteRoot' in super.launch
+            this.resolveReplayPathMapping(args);
+        }
+
         await super.launch(args);
         if (args.__restart && typeof args.__restart.port === 'number') {
             return this.doAttach(args.__restart.port, undefined, args.address, args.timeout);
@@ -216,6 +1025,10 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
 
         this._continueAfterConfigDone = !args.stopOnEntry;
 
+        if (args.replay) {
+            await this.resolveReplayTrace(args);
+        }
+
         if (this.isExtensionHost()) {
             // we always launch in 'debug-brk' mode, but we only show the break event if 'stopOnEntry' attribute is true.
             let launchArgs = [];
@@ -263,6 +1076,17 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
         this._runtimeArgsForTTD = args.runtimeArgs || [];
         this._runtimeExecutableForTTD = args.runtimeExecutable;
         this._programPathForTTD = programPath;
+        this._programArgsForTTD = args.args || [];
+        this._cwdForTTD = args.cwd || (programPath && path.dirname(programPath));
+        this._envKeysForTTD = Object.keys(this.collectEnvFileArgs(args) || args.env || {});
+        this._configurationNameForTTD = args.name;
+        this._autoTraceOnException = args.autoTraceOnException;
+        this._autoTraceExceptionTypes = args.autoTraceExceptionTypes || [];
+        this._autoTraceOpenReplay = !!args.autoTraceOpenReplay;
+        this._traceRetention = args.traceRetention;
+        if (this.isTTDLiveMode()) {
+            await this.resolveTraceRoot(args);
+        }
         ////
 
         return this.resolveProgramPath(programPath, args.sourceMaps).then(resolvedProgramPath => {
@@ -302,11 +1126,45 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
                 }
             }
 
-            launchArgs = runtimeArgs.concat(launchArgs, program ? [program] : [], programArgs);
+            let envArgs = this.collectEnvFileArgs(args) || args.env;
+            if (args.npmScript) {
+                const npmClient = args.npmClient || 'npm';
+                const scriptRunner = pathUtils.findOnPath(npmClient, args.env);
+                if (!scriptRunner) {
+                    return Promise.reject(errors.runtimeNotFound(npmClient));
+                }
+
+                // the script starts node by name, so the debug arguments are passed on by a shim first on its PATH
+                const fallback = pathUtils.findOnPath(NodeDebugTTDAdapter.NODE, args.env) || runtimeExecutable;
+                try {
+                    this._scriptShimDirectory = scriptShim.createNodeShim(runtimeExecutable, runtimeArgs.concat(launchArgs), fallback,
+                        { program: resolvedProgramPath, programPattern: args.npmScriptProgram });
+                } catch (e) {
+                    return Promise.reject(errors.cannotLaunchDebugTarget(e.message));
+                }
+
+                envArgs = scriptShim.prependToPath(this._scriptShimDirectory, envArgs);
+
+                runtimeExecutable = scriptRunner;
+                launchArgs = ['run', args.npmScript];
+                if (programArgs.length) {
+                    launchArgs = launchArgs.concat(npmClient === 'npm' ? ['--'] : [], programArgs);
+                }
+            } else {
+                launchArgs = runtimeArgs.concat(launchArgs, program ? [program] : [], programArgs);
+            }
 
-            const envArgs = this.collectEnvFileArgs(args) || args.env;
             let launchP: Promise<void>;
-            if (!args.console || args.console === 'internalConsole') {
+            if (args.console === 'integratedTerminal' || args.console === 'externalTerminal') {
+                const termArgs: DebugProtocol.RunInTerminalRequestArguments = {
+                    kind: args.console === 'integratedTerminal' ? 'integrated' : 'external',
+                    title: localize('node.console.title', "Node Debug Console"),
+                    cwd,
+                    args: [runtimeExecutable].concat(launchArgs),
+                    env: envArgs
+                };
+                launchP = this.launchInTerminal(termArgs);
+            } else if (!args.console || args.console === 'internalConsole') {
                 launchP = this.launchInInternalConsole(runtimeExecutable, launchArgs, envArgs, cwd);
             } else {
                 return Promise.reject(errors.unknownConsoleType(args.console));
@@ -322,8 +1180,21 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
     }
 
     public async attach(args: IAttachRequestArguments): Promise<void> {
+        if (args.processId) {
+            await this.enableDebuggingInProcess(args);
+        }
+
+        ////
+        // TTD support -- the runtime details are read from the target once connected
+        this._configurationNameForTTD = args.name;
+        this._autoTraceOnException = args.autoTraceOnException;
+        this._autoTraceExceptionTypes = args.autoTraceExceptionTypes || [];
+        this._autoTraceOpenReplay = !!args.autoTraceOpenReplay;
+        this._traceRetention = args.traceRetention;
+        ////
+
         try {
-            return super.attach(args);
+            await super.attach(args);
         } catch (err) {
             if (err.format && err.format.indexOf('Cannot connect to runtime process') >= 0) {
                 // hack -core error msg
@@ -332,6 +1203,58 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
 
             throw err;
         }
+
+        if (this.supportsStepBack()) {
+            await this.getTTDDetailsForAttach(args);
+        }
+    }
+
+    /**
+     * Open the inspector of the process 'processId' on the default port, the same as 'node --inspect' would.
+     */
+    private enableDebuggingInProcess(args: IAttachRequestArguments): Promise<void> {
+        const pid = parseInt(args.processId, 10);
+        if (isNaN(pid) || pid <= 0) {
+            return Promise.reject(errors.invalidProcessId(args.processId));
+        }
+
+        try {
+            if (process.platform === 'win32') {
+                // there are no signals on Windows, node exposes the same thing as a private API
+                (<any>process)._debugProcess(pid);
+            } else {
+                process.kill(pid, 'SIGUSR1');
+            }
+        } catch (e) {
+            return Promise.reject(errors.cannotDebugProcess(args.processId, e.message));
+        }
+
+        args.port = args.port || 9229;
+        return Promise.resolve();
+    }
+
+    /**
+     * An attached target was not started by us, so ask it how it was started. Step back needs the runtime and its
+     * arguments to tell whether the target records a trace, the manifest needs the program.
+     */
+    private getTTDDetailsForAttach(args: IAttachRequestArguments): Promise<void> {
+        const expression = '[process.execPath, process.execArgv, process.argv.slice(1), process.cwd()]';
+        return this.chrome.Runtime.evaluate({ expression, returnByValue: true, contextId: 1 }).then(response => {
+            if (response.exceptionDetails) {
+                logger.log('Exception evaluating the time-travel runtime details: ' + chromeUtils.errorMessageFromExceptionDetails(response.exceptionDetails));
+                return undefined;
+            }
+
+            const [execPath, execArgv, argv, cwd] = response.result.value;
+            this._runtimeExecutableForTTD = execPath;
+            this._runtimeArgsForTTD = execArgv;
+            this._programPathForTTD = argv[0];
+            this._programArgsForTTD = argv.slice(1);
+            this._cwdForTTD = args.cwd || cwd;
+            this._envKeysForTTD = [];
+
+            return this.isTTDLiveMode() ? this.resolveTraceRoot(args) : undefined;
+        }, error => logger.error('Error evaluating the time-travel runtime details: ' + error.message));
     }
 
     protected commonArgs(args: ICommonRequestArgs): void {
@@ -358,13 +1281,39 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
         this.beginWaitingForDebuggerPaused();
         this.getNodeProcessDetailsIfNeeded();
 
-        this._session.sendEvent(new CapabilitiesEvent({ supportsStepBack: this.supportsStepBack() }));
+        const replayTarget = this.isTTDReplayMode() && this.supportsStepBack();
+        if (replayTarget) {
+            await this.detectTimeTravelFeatures();
+        }
+
+        this._session.sendEvent(new CapabilitiesEvent({
+            supportsStepBack: this.supportsStepBack(),
+            supportsDataBreakpoints: this.supportsTimeTravelFeature('dataBreakpoints'),
+            supportsGotoTargetsRequest: replayTarget
+        }));
     }
 
     private supportsStepBack(): boolean {
         return this._domains.has(<keyof Crdp.CrdpClient>'TimeTravel');
     }
 
+    private launchInTerminal(termArgs: DebugProtocol.RunInTerminalRequestArguments): Promise<void> {
+        this.logLaunchCommand(termArgs.args[0], termArgs.args.slice(1));
+        return new Promise<void>((resolve, reject) => {
+            this._session.sendRequest('runInTerminal', termArgs, NodeDebugTTDAdapter.RUNINTERMINAL_TIMEOUT, response => {
+                if (response.success) {
+                    // since node starts in a terminal, we cannot track it with an 'exit' handler
+                    // plan for polling after we have gotten the process pid.
+                    this._pollForNodeProcess = true;
+                    resolve();
+                } else {
+                    reject(errors.cannotLaunchInTerminal(response.message));
+                    this.terminateSession('terminal error: ' + response.message);
+                }
+            });
+        });
+    }
+
     private launchInInternalConsole(runtimeExecutable: string, launchArgs: string[], envArgs?: any, cwd?: string): Promise<void> {
         // merge environment variables into a copy of the process.env
         const env = Object.assign({}, process.env, envArgs);
@@ -561,11 +1510,55 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
         }
 
         this.killNodeProcess();
+        if (this._pauseWaiter) {
+            this._pauseWaiter.reject(errors.replayEnded());
+        }
+        if (this._replayTraceDirectory) {
+            traceUtils.unlockTraceForReplay(this._replayTraceDirectory);
+        }
+        if (this._scriptShimDirectory) {
+            pathUtils.deleteTargetDirectory(this._scriptShimDirectory);
+            this._scriptShimDirectory = undefined;
+        }
+
         const restartArgs = this._restartMode && !this._inShutdown ? { port: this._port } : undefined;
         return super.terminateSession(reason, undefined, restartArgs);
     }
 
+    /**
+     * Override so that the target also pauses on the exceptions 'autoTraceOnException' needs to see.
+     */
+    public setExceptionBreakpoints(args: DebugProtocol.SetExceptionBreakpointsArguments): Promise<void> {
+        this._userExceptionFilters = args.filters;
+
+        const filters = args.filters.slice();
+        if (this._autoTraceOnException && filters.indexOf(this._autoTraceOnException) < 0) {
+            filters.push(this._autoTraceOnException);
+        }
+
+        return super.setExceptionBreakpoints({ filters });
+    }
+
     protected async onPaused(notification: Crdp.Debugger.PausedEvent, expectingStopReason = this._expectingStopReason): Promise<void> {
+        // variables references are only valid until the next pause
+        this._pausedCallFrames = notification.callFrames;
+        this._callFramesByFrameId.clear();
+        this._objectIdsByReference.clear();
+        this._objectIdsByEvaluateName.clear();
+        this._evaluateNamesByVariable.clear();
+        this._gotoTargets.clear();
+        if (this._pauseWaiter) {
+            this._pauseWaiter.resolve(notification);
+        }
+        if (this._deferStops > 0) {
+            // only the pause a replay request ends with is reported, see deferStops
+            this._deferredPause = notification;
+            return;
+        }
+        if (this.supportsTimeTravelFeature('events')) {
+            this.sendReplayPosition();
+        }
+
         // If we don't have the entry location, this must be the entry pause
         if (this._waitingForEntryPauseEvent) {
             logger.log(Date.now() / 1000 + ': Paused on entry');
@@ -583,11 +1576,34 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
 
             return this.getNodeProcessDetailsIfNeeded()
                 .then(() => this.sendInitializedEvent());
+        } else if (this.isAutoTraceExceptionPause(notification)) {
+            if (this.shouldAutoTrace(notification)) {
+                logger.log('Writing a time-travel trace for exception pause');
+                await this.launchSetupForReverseExecution(this._autoTraceOpenReplay);
+            }
+
+            if (!this.isUserExceptionPause(notification)) {
+                // we only paused to write the trace, or to see whether to write one
+                return this.chrome.Debugger.resume()
+                    .catch(e => logger.error('Failed to resume after an exception pause: ' + e.message));
+            }
+
+            return super.onPaused(notification, expectingStopReason);
         } else {
             return super.onPaused(notification, expectingStopReason);
         }
     }
 
+    protected onResumed(): void {
+        super.onResumed();
+        this._pausedCallFrames = [];
+
+        // the position sent on the last pause no longer holds
+        if (this.isTTDReplayMode()) {
+            this._session.sendEvent(new Event('ttdReplayRunning'));
+        }
+    }
+
     private resolveProgramPath(programPath: string, sourceMaps: boolean): Promise<string> {
         return Promise.resolve().then(() => {
             if (!programPath) {
@@ -737,6 +1753,7 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
                 }
 
                 this._loggedTargetVersion = true;
+                this._targetVersion = version;
                 logger.log(`Target node version: ${version} ${arch}`);
                 /* __GDPR__
                    "nodeVersion" : {
@@ -836,10 +1853,12 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
     }
 
     /**
-     * If realPath is an absolute path or a URL, return realPath. Otherwise, prepend the node_internals marker
+     * If realPath is an absolute path or a URL, return realPath. Otherwise, prepend the node_internals marker. Callers
+     * pass paths that already went through 'remoteRoot'/'localRoot'.
      */
     protected realPathToDisplayPath(realPath: string): string {
-        if (!realPath.match(/VM\d+/) && !path.isAbsolute(realPath)) {
+        // a trace may come from a machine with the other kind of paths
+        if (!realPath.match(/VM\d+/) && !path.posix.isAbsolute(realPath) && !path.win32.isAbsolute(realPath)) {
             return `${NodeDebugTTDAdapter.NODE_INTERNALS}/${realPath}`;
         }
 
@@ -847,7 +1866,8 @@ export class NodeDebugTTDAdapter extends ChromeDebugAdapter {
     }
 
     /**
-     * If displayPath starts with the NODE_INTERNALS indicator, strip it.
+     * If displayPath starts with the NODE_INTERNALS indicator, strip it. Other display paths are client paths, which
+     * the path transformer maps back to the target wherever one is needed.
      */
     protected displayPathToRealPath(displayPath: string): string {
         const match = displayPath.match(new RegExp(`^${NodeDebugTTDAdapter.NODE_INTERNALS}[\\\\/](.*)`));
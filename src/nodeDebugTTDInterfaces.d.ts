@@ -4,12 +4,19 @@
 
 import {DebugProtocol} from 'vscode-debugprotocol';
 import * as Core from 'vscode-chrome-debug-core';
+import {ITraceRetention} from './traceUtils';
 
 type ConsoleType = "internalConsole" | "integratedTerminal" | "externalTerminal";
 
 type OutputCaptureType = "console" | "std";
 
+type AutoTraceOnExceptionType = "uncaught" | "all";
+
+type NpmClientType = "npm" | "yarn";
+
 export interface ICommonRequestArgs extends Core.ICommonRequestArgs {
+    /** Name of the debug configuration. */
+    name?: string;
     stopOnEntry?: boolean;
     address?: string;
     timeout?: number;
@@ -17,6 +24,17 @@ export interface ICommonRequestArgs extends Core.ICommonRequestArgs {
     cwd?: string;
     /** Request frontend to restart session on termination. */
     restart?: boolean;
+
+    /** Directory that holds the time-travel traces. Supports '${workspaceFolder}' and '${cwd}'. */
+    traceDirectory?: string;
+    /** Write a time-travel trace when the program stops on an uncaught or on any exception. */
+    autoTraceOnException?: AutoTraceOnExceptionType;
+    /** Only write traces for exceptions of these types, matched against the class name or start of the description. */
+    autoTraceExceptionTypes?: string[];
+    /** Open a replay session for traces written by 'autoTraceOnException'. */
+    autoTraceOpenReplay?: boolean;
+    /** Limits on the traces kept in 'traceDirectory'. */
+    traceRetention?: ITraceRetention;
 }
 
 /**
@@ -27,6 +45,12 @@ export interface ILaunchRequestArguments extends Core.ILaunchRequestArgs, ICommo
     program: string;
     /** Optional arguments passed to the debuggee. */
     args?: string[];
+    /** Run this npm script, debugging the node process it starts for 'program'. */
+    npmScript?: string;
+    /** Glob matched against the entry script of the node processes 'npmScript' starts, to pick the one to debug when there is no 'program'. */
+    npmScriptProgram?: string;
+    /** Run 'npmScript' with npm or with yarn. */
+    npmClient?: NpmClientType;
     /** Launch the debuggee in this working directory (specified as an absolute path). If omitted the debuggee is lauched in its own directory. */
     cwd: string;
     /** Absolute path to the runtime executable to be used. Default is the runtime executable on the PATH. */
@@ -44,6 +68,8 @@ export interface ILaunchRequestArguments extends Core.ILaunchRequestArgs, ICommo
     outputCapture?: OutputCaptureType;
     /** Use Windows Subsystem for Linux */
     useWSL?: boolean;
+    /** Replay the trace in 'traceDirectory' instead of launching 'program'. */
+    replay?: boolean;
 
     /** Logging options */
     diagnosticLogging?: boolean;
@@ -66,3 +92,91 @@ export interface IAttachRequestArguments extends Core.IAttachRequestArgs, ICommo
 }
 
 export type NodeDebugError = DebugProtocol.Message & Error;
+
+/**
+ * A top-level event-loop callback recorded in a trace, as reported by the runtime.
+ */
+export interface ITimeTravelEvent {
+    eventIndex: number;
+    /** What started the callback, e.g. 'timer' or 'io'. */
+    kind?: string;
+    functionName?: string;
+    scriptId?: Core.Crdp.Runtime.ScriptId;
+    /** 0-based, like all locations of the protocol. */
+    lineNumber?: number;
+    columnNumber?: number;
+    /** Wall clock time the callback started at, in milliseconds since the epoch. */
+    timestamp?: number;
+    /** How long the callback ran, in milliseconds. */
+    duration?: number;
+}
+
+/**
+ * The replay methods of the TimeTravel domain that are not part of the core client. Only some NodeChakraCore builds
+ * implement them, so they are grouped into features whose support is detected when the adapter attaches.
+ */
+export interface TimeTravelReplayClient extends Core.TimeTravelClient {
+    getEventTimeline(): Promise<{ events: ITimeTravelEvent[] }>;
+    moveToEvent(params: { eventIndex: number }): Promise<void>;
+    /** The event-loop callback the replay is paused in, and the number of callbacks in the trace. */
+    getCurrentEventIndex(): Promise<{ eventIndex: number, eventCount: number }>;
+    /** Step back into the call that ended just before the current statement, to its last statement. */
+    stepBackInto(): Promise<void>;
+    /** Pause on writes to the property 'propertyName' of the object (or scope) 'objectId', in either direction. */
+    setDataBreakpoint(params: { objectId: string, propertyName: string }): Promise<{ breakpointId: string }>;
+    removeDataBreakpoint(params: { breakpointId: string }): Promise<void>;
+}
+
+export interface TimeTravelReplayRuntime extends Core.TimeTravelRuntime {
+    TimeTravel: TimeTravelReplayClient;
+}
+
+/**
+ * An entry of the 'ttdGetEventTimeline' response.
+ */
+export interface ITimelineEvent {
+    index: number;
+    kind?: string;
+    name: string;
+    source?: DebugProtocol.Source;
+    line?: number;
+    column?: number;
+    timestamp?: number;
+    duration?: number;
+}
+
+/**
+ * An entry of the 'ttdGetBookmarks' response.
+ */
+export interface IReplayBookmark {
+    id: string;
+    label: string;
+    eventIndex: number;
+    source?: DebugProtocol.Source;
+    line?: number;
+    column?: number;
+    created: number;
+}
+
+/**
+ * Body of the 'ttdReplayPosition' event, sent each time a replay pauses.
+ */
+export interface IReplayPosition {
+    /** The event-loop callback the replay is paused in. */
+    eventIndex: number;
+    /** The number of event-loop callbacks in the trace. */
+    eventCount: number;
+}
+
+/**
+ * Groups of optional TimeTravel domain methods: 'events' covers 'getEventTimeline', 'moveToEvent' and
+ * 'getCurrentEventIndex', which runtimes implement together, and 'dataBreakpoints' covers 'setDataBreakpoint' and
+ * 'removeDataBreakpoint'. 'stepBackInto' cannot be probed without moving the replay, so it is assumed until the runtime
+ * rejects it.
+ */
+export type TimeTravelFeature = 'events' | 'dataBreakpoints' | 'stepBackInto';
+
+/**
+ * Body of the 'ttdReplayFeatures' event, sent when the adapter finds out which features the runtime of a replay has.
+ */
+export type IReplayFeatures = { [feature in TimeTravelFeature]: boolean };
@@ -296,7 +296,25 @@ export function ensureTraceTarget(pth: string): [boolean, string | undefined] {
     return [true, undefined];
 }
 
-function createTargetDirectory(pth: string): boolean {
+/**
+ * Substitute the '${workspaceFolder}' and '${cwd}' variables in 'pth'. Variables without a value are left in place.
+ */
+export function substituteVariables(pth: string, cwd?: string, workspaceFolder?: string): string {
+    if (workspaceFolder) {
+        pth = pth.replace(/\$\{workspaceFolder\}/g, workspaceFolder);
+    }
+
+    if (cwd) {
+        pth = pth.replace(/\$\{cwd\}/g, cwd);
+    }
+
+    return pth;
+}
+
+/**
+ * Make sure that the given directory and all its parents exist and that the directory is writable.
+ */
+export function createTargetDirectory(pth: string): boolean {
     // see if it just exists and, if so, just return true
     const accessOk = FS.constants.W_OK;
     try {
@@ -338,6 +356,23 @@ function createTargetDirectory(pth: string): boolean {
     return true;
 }
 
+/**
+ * Delete the given directory and everything in it.
+ */
+export function deleteTargetDirectory(pth: string): boolean {
+    if (!deleteTargetDirectoryContents(pth)) {
+        return false;
+    }
+
+    try {
+        FS.rmdirSync(pth);
+    } catch (ex) {
+        return false;
+    }
+
+    return true;
+}
+
 function deleteTargetDirectoryContents(pth: string): boolean {
     try {
         const items = FS.readdirSync(pth);
@@ -0,0 +1,119 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+import { IReplayPosition } from './nodeDebugTTDInterfaces';
+import { isReplaySession } from './replaySessions';
+
+const PERCENTAGES = [10, 25, 50, 75, 90];
+
+/**
+ * Shows where in the recording the active replay session is paused, from the 'ttdReplayPosition' events of the
+ * adapter, and lets the user jump to another point of the recording. The position is hidden while the replay runs.
+ */
+export class ReplayPositionIndicator implements vscode.Disposable {
+    private _positions = new Map<string, IReplayPosition>();
+    private _statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this._statusBarItem.command = 'nodeChakraTTD.scrubReplay';
+        this._statusBarItem.tooltip = 'Time-Travel: Go to a Point of the Recording';
+
+        this._disposables.push(this._statusBarItem);
+        this._disposables.push(vscode.debug.onDidReceiveDebugSessionCustomEvent(e => this.onCustomEvent(e)));
+        this._disposables.push(vscode.debug.onDidChangeActiveDebugSession(() => this.update()));
+        this._disposables.push(vscode.debug.onDidTerminateDebugSession(session => {
+            this._positions.delete(session.id);
+            this.update();
+        }));
+        this._disposables.push(vscode.commands.registerCommand('nodeChakraTTD.scrubReplay', () => this.scrub()));
+    }
+
+    public dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+
+    private onCustomEvent(e: vscode.DebugSessionCustomEvent): void {
+        if (e.event === 'ttdReplayPosition') {
+            this._positions.set(e.session.id, <IReplayPosition>e.body);
+        } else if (e.event === 'ttdReplayRunning') {
+            this._positions.delete(e.session.id);
+        } else {
+            return;
+        }
+
+        this.update();
+    }
+
+    private update(): void {
+        const session = vscode.debug.activeDebugSession;
+        const position = session && isReplaySession(session) ? this._positions.get(session.id) : undefined;
+        if (!position) {
+            this._statusBarItem.hide();
+            return;
+        }
+
+        this._statusBarItem.text = `$(history) Event ${position.eventIndex + 1}/${position.eventCount} (${percentageOf(position)}%)`;
+        this._statusBarItem.show();
+    }
+
+    private scrub(): Thenable<void> {
+        const session = vscode.debug.activeDebugSession;
+        const position = session && isReplaySession(session) ? this._positions.get(session.id) : undefined;
+        if (!session || !position) {
+            vscode.window.showErrorMessage('TTD: Moving through the recording needs a paused time-travel replay session.');
+            return Promise.resolve();
+        }
+
+        const last = Math.max(0, position.eventCount - 1);
+        const items: (vscode.QuickPickItem & { eventIndex?: number })[] = [
+            { label: 'Start of Recording', description: 'event 1', eventIndex: 0 },
+            { label: 'End of Recording', description: `event ${last + 1}`, eventIndex: last }
+        ].concat(PERCENTAGES.map(percentage => {
+            const eventIndex = Math.round(last * percentage / 100);
+            return { label: `${percentage}%`, description: `event ${eventIndex + 1}`, eventIndex };
+        })).concat([
+            { label: 'Percentage...', description: 'go to another point of the recording', eventIndex: undefined }
+        ]);
+
+        return vscode.window.showQuickPick(items, {
+            placeHolder: `Paused at event ${position.eventIndex + 1} of ${position.eventCount} (${percentageOf(position)}%)`
+        }).then(item => {
+            if (!item) {
+                return undefined;
+            }
+            if (item.eventIndex !== undefined) {
+                return item.eventIndex;
+            }
+
+            return vscode.window.showInputBox({
+                prompt: 'Percentage of the recording to go to',
+                validateInput: value => parsePercentage(value) === undefined ? 'Enter a number from 0 to 100' : undefined
+            }).then(value => {
+                const percentage = value !== undefined ? parsePercentage(value) : undefined;
+                return percentage !== undefined ? Math.round(last * percentage / 100) : undefined;
+            });
+        }).then(eventIndex => {
+            if (eventIndex === undefined) {
+                return undefined;
+            }
+
+            return session.customRequest('ttdMoveToEvent', { eventIndex }).then(() => undefined, err => {
+                vscode.window.showErrorMessage(`TTD: Failed to move to event ${eventIndex + 1} -- ${err.message}`);
+            });
+        });
+    }
+}
+
+function percentageOf(position: IReplayPosition): number {
+    return position.eventCount > 1 ? Math.round(position.eventIndex * 100 / (position.eventCount - 1)) : 100;
+}
+
+function parsePercentage(value: string): number | undefined {
+    const percentage = Number(value.trim().replace(/%$/, ''));
+    return value.trim() && !isNaN(percentage) && percentage >= 0 && percentage <= 100 ? percentage : undefined;
+}
@@ -0,0 +1,147 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+import { IReplayFeatures, TimeTravelFeature } from './nodeDebugTTDInterfaces';
+
+const DEBUG_TYPE = 'node-chakracore-time-travel-debugger';
+
+const REPLAY_FEATURES: TimeTravelFeature[] = ['events', 'dataBreakpoints', 'stepBackInto'];
+
+/**
+ * Keeps track of the replay sessions spawned from each live session. A replay is started as a child session of the
+ * live session, which VS Code shows in the Call Stack view, and carries the id of that session in its 'liveSessionId'
+ * configuration attribute, which only the extension reads.
+ */
+export class ReplaySessionTracker implements vscode.Disposable {
+    private _liveSessions = new Map<string, vscode.DebugSession>();
+    private _replaySessions = new Map<string, vscode.DebugSession>();
+    private _replayFeatures = new Map<string, IReplayFeatures>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this._disposables.push(vscode.debug.onDidStartDebugSession(session => this.onStartSession(session)));
+        this._disposables.push(vscode.debug.onDidTerminateDebugSession(session => this.onTerminateSession(session)));
+        this._disposables.push(vscode.debug.onDidReceiveDebugSessionCustomEvent(e => this.onCustomEvent(e)));
+        this._disposables.push(vscode.debug.onDidChangeActiveDebugSession(() => this.updateFeatureContext()));
+        this._disposables.push(vscode.commands.registerCommand('nodeChakraTTD.returnToLiveSession', () => this.returnToLiveSession()));
+    }
+
+    public dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+
+    /**
+     * Returns the live session that spawned the replay 'session', if it is still running.
+     */
+    public getLiveSession(session: vscode.DebugSession): vscode.DebugSession | undefined {
+        return isReplaySession(session) && session.configuration.liveSessionId ?
+            this._liveSessions.get(session.configuration.liveSessionId) :
+            undefined;
+    }
+
+    private onStartSession(session: vscode.DebugSession): void {
+        if (session.type !== DEBUG_TYPE) {
+            return;
+        }
+
+        if (isReplaySession(session)) {
+            this._replaySessions.set(session.id, session);
+        } else {
+            this._liveSessions.set(session.id, session);
+        }
+    }
+
+    private onCustomEvent(e: vscode.DebugSessionCustomEvent): void {
+        if (e.event !== 'ttdReplayFeatures') {
+            return;
+        }
+
+        this._replayFeatures.set(e.session.id, <IReplayFeatures>e.body);
+        this.updateFeatureContext();
+    }
+
+    /**
+     * Set a 'nodeChakraTTD.replaySupports<Feature>' context key for each feature the runtime of the active replay has,
+     * so views and commands it lacks are hidden.
+     */
+    private updateFeatureContext(): void {
+        const session = vscode.debug.activeDebugSession;
+        const features = session && isReplaySession(session) ? this._replayFeatures.get(session.id) : undefined;
+        REPLAY_FEATURES.forEach(feature => {
+            const key = `nodeChakraTTD.replaySupports${feature.substr(0, 1).toUpperCase()}${feature.substr(1)}`;
+            vscode.commands.executeCommand('setContext', key, !!features && features[feature]);
+        });
+    }
+
+    private onTerminateSession(session: vscode.DebugSession): void {
+        this._replaySessions.delete(session.id);
+        this._replayFeatures.delete(session.id);
+        if (!this._liveSessions.delete(session.id)) {
+            return;
+        }
+
+        if (vscode.workspace.getConfiguration('nodeChakraTTD').get<boolean>('stopReplaysWithLiveSession', true)) {
+            this._replaySessions.forEach(replay => {
+                if (replay.configuration.liveSessionId === session.id) {
+                    stopSession(replay);
+                }
+            });
+        }
+    }
+
+    /**
+     * Bring the live session the active replay was spawned from to the front. The replay keeps running so the user
+     * can come back to it.
+     */
+    private returnToLiveSession(): Thenable<void> {
+        const session = vscode.debug.activeDebugSession;
+        if (!session || !isReplaySession(session)) {
+            vscode.window.showErrorMessage('TTD: Returning to the live session needs an active time-travel replay session.');
+            return Promise.resolve();
+        }
+
+        const liveSession = this.getLiveSession(session);
+        if (!liveSession) {
+            vscode.window.showErrorMessage('TTD: The live session of this replay is no longer running.');
+            return Promise.resolve();
+        }
+
+        return liveSession.customRequest('ttdRevealSession').then(response => {
+            return vscode.commands.executeCommand('workbench.debug.action.focusCallStackView').then(() => {
+                if (!response.paused) {
+                    vscode.window.showInformationMessage(`TTD: '${liveSession.name}' is running; select it in the Call Stack view.`);
+                }
+            });
+        }, err => {
+            vscode.window.showErrorMessage(`TTD: Failed to return to the live session -- ${err.message}`);
+        });
+    }
+}
+
+export function isReplaySession(session: vscode.DebugSession | undefined): boolean {
+    return !!session && session.type === DEBUG_TYPE && !!session.configuration.replay;
+}
+
+/**
+ * Stop 'session' the way the Stop button does. 'vscode.debug.stopDebugging' only exists from VS Code 1.49 on; before
+ * that the Stop command stops the session when it is the active one, and any other session is asked to disconnect.
+ */
+function stopSession(session: vscode.DebugSession): Thenable<void> {
+    const debug: { stopDebugging?: (session: vscode.DebugSession) => Thenable<void> } = <any>vscode.debug;
+    if (debug.stopDebugging) {
+        return debug.stopDebugging(session);
+    }
+
+    const active = vscode.debug.activeDebugSession;
+    if (active && active.id === session.id) {
+        return vscode.commands.executeCommand('workbench.action.debug.stop').then(() => undefined);
+    }
+
+    return session.customRequest('disconnect', { terminateDebuggee: true }).then(() => undefined, () => {
+        // the session is already shutting down
+    });
+}
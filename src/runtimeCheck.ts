@@ -0,0 +1,80 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as cp from 'child_process';
+
+import * as pathUtils from './pathUtils';
+
+const RUNTIME_CHECK_TIMEOUT = 10000;
+
+/**
+ * Prints the engine of the runtime. A runtime without time-travel support rejects '--tt-debug' before running it.
+ */
+const RUNTIME_CHECK_ARGS = ['--tt-debug', '--disable-auto-trace', '-e', 'process.stdout.write(String(process.jsEngine))'];
+
+const checkedRuntimes = new Map<string, [number, string | undefined]>();
+
+/**
+ * Returns the NodeChakraCore binary shipped with the extension for this platform, if there is one.
+ */
+export function getBundledRuntime(): string | undefined {
+    if (process.arch !== 'x64') {
+        return undefined;
+    }
+
+    let runtime: string;
+    if (process.platform === 'win32') {
+        runtime = path.join(__dirname, '../nodebins/win32/node.exe');
+    } else if (process.platform === 'linux') {
+        runtime = path.join(__dirname, '../nodebins/linux/node');
+    } else if (process.platform === 'darwin') {
+        runtime = path.join(__dirname, '../nodebins/darwin/node');
+    } else {
+        return undefined;
+    }
+
+    return fs.existsSync(runtime) ? runtime : undefined;
+}
+
+/**
+ * Resolve 'runtime' to an absolute path, looking it up on the PATH if it is only a name.
+ */
+export function findRuntime(runtime: string, env?: any): string | undefined {
+    return path.isAbsolute(runtime) ? pathUtils.findExecutable(runtime, env) : pathUtils.findOnPath(runtime, env);
+}
+
+/**
+ * Check that 'runtime' is a ChakraCore build of Node with time-travel support. Returns why it is not, or undefined if
+ * it is. Results are cached until the binary changes.
+ */
+export function checkRuntime(runtime: string): Promise<string | undefined> {
+    let mtime: number;
+    try {
+        mtime = fs.statSync(runtime).mtime.getTime();
+    } catch (e) {
+        return Promise.resolve(`'${runtime}' does not exist`);
+    }
+
+    const cached = checkedRuntimes.get(runtime);
+    if (cached && cached[0] === mtime) {
+        return Promise.resolve(cached[1]);
+    }
+
+    return new Promise<string | undefined>(resolve => {
+        cp.execFile(runtime, RUNTIME_CHECK_ARGS, { timeout: RUNTIME_CHECK_TIMEOUT }, (error, stdout, stderr) => {
+            let problem: string | undefined;
+            if (error) {
+                const reason = String(stderr).trim().split(/\r?\n/)[0] || error.message;
+                problem = `'${runtime}' does not support time-travel debugging (${reason})`;
+            } else if (String(stdout).trim() !== 'chakracore') {
+                problem = `'${runtime}' is not a ChakraCore build of Node`;
+            }
+
+            checkedRuntimes.set(runtime, [mtime, problem]);
+            resolve(problem);
+        });
+    });
+}
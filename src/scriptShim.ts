@@ -0,0 +1,159 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as crypto from 'crypto';
+
+import * as pathUtils from './pathUtils';
+import * as utils from './utils';
+
+/**
+ * Chooses the node process of the script to debug. The shim on the PATH hands every node process the script starts to
+ * it, and it runs the time-travel runtime with the debug arguments for the process whose entry script is 'program'
+ * (or matches 'programPattern'). Without either, the first node process started is debugged. Only one process is
+ * ever debugged, the others run the regular node.
+ */
+const SELECT_SCRIPT = `'use strict';
+const cp = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+const config = require('./shim.json');
+const args = process.argv.slice(2);
+
+function getEntryScript() {
+    for (let i = 0; i < args.length; i++) {
+        if (!args[i].startsWith('-')) {
+            return args[i];
+        }
+        if (config.optionsWithValue.indexOf(args[i]) >= 0) {
+            i++;
+        }
+    }
+
+    return undefined;
+}
+
+function isTarget(script) {
+    if (config.program) {
+        const resolved = path.resolve(script);
+        const program = process.platform === 'win32' ? config.program.toLowerCase() : config.program;
+        return [resolved, resolved + '.js'].some(p => (process.platform === 'win32' ? p.toLowerCase() : p) === program);
+    }
+    if (config.programPattern) {
+        return new RegExp(config.programPattern).test(path.normalize(script).split(path.sep).join('/'));
+    }
+
+    return true;
+}
+
+function takeLock() {
+    try {
+        fs.mkdirSync(path.join(__dirname, 'started'));
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+const script = getEntryScript();
+const debug = script !== undefined && isTarget(script) && takeLock();
+const result = cp.spawnSync(debug ? config.runtime : config.fallback, (debug ? config.runtimeArgs : []).concat(args), { stdio: 'inherit' });
+if (result.error) {
+    console.error(result.error.message);
+    process.exit(1);
+}
+if (result.signal) {
+    process.kill(process.pid, result.signal);
+}
+process.exit(result.status);
+`;
+
+/**
+ * Which node process of an npm script to debug: the one running 'program', or else the one whose entry script
+ * matches the glob 'programPattern'.
+ */
+export interface IScriptTarget {
+    program?: string;
+    programPattern?: string;
+}
+
+/**
+ * An npm script starts node itself, by name, so we cannot pass it the time-travel and inspector arguments. Instead a
+ * 'node' shim is put first on the PATH of the script. Node processes started for the script (recognized by the
+ * 'npm_lifecycle_event' variable npm and yarn set for it) go through SELECT_SCRIPT, which debugs the one that runs
+ * 'target'; every other node process, including npm itself, runs the regular node.
+ */
+export function createNodeShim(runtime: string, runtimeArgs: string[], fallback: string, target: IScriptTarget = {}): string {
+    const shimDir = path.join(os.tmpdir(), 'node-chakracore-ttd-shims', crypto.randomBytes(8).toString('hex'));
+    if (!pathUtils.createTargetDirectory(shimDir)) {
+        throw new Error(`Cannot create directory ${shimDir}`);
+    }
+
+    const selectScript = path.join(shimDir, 'select.js');
+    fs.writeFileSync(selectScript, SELECT_SCRIPT);
+    fs.writeFileSync(path.join(shimDir, 'shim.json'), JSON.stringify({
+        runtime,
+        runtimeArgs,
+        fallback,
+        program: target.program,
+        programPattern: target.programPattern !== undefined ? globToRegExp(target.programPattern) : undefined,
+        optionsWithValue: utils.NODE_OPTIONS_WITH_VALUE
+    }));
+
+    if (process.platform === 'win32') {
+        fs.writeFileSync(path.join(shimDir, 'node.cmd'), [
+            '@echo off',
+            'if not defined npm_lifecycle_event goto fallback',
+            `"${fallback}" "${selectScript}" %*`,
+            'exit /b %errorlevel%',
+            ':fallback',
+            `"${fallback}" %*`,
+            'exit /b %errorlevel%',
+            ''
+        ].join('\r\n'));
+    } else {
+        const shimPath = path.join(shimDir, 'node');
+        fs.writeFileSync(shimPath, [
+            '#!/bin/sh',
+            'if [ -n "$npm_lifecycle_event" ]; then',
+            `    exec ${shellQuote(fallback)} ${shellQuote(selectScript)} "$@"`,
+            'fi',
+            `exec ${shellQuote(fallback)} "$@"`,
+            ''
+        ].join('\n'));
+        fs.chmodSync(shimPath, 0o755);
+    }
+
+    return shimDir;
+}
+
+/**
+ * Returns a copy of 'env' with 'shimDir' first on the PATH.
+ */
+export function prependToPath(shimDir: string, env: { [key: string]: string | null } | undefined): { [key: string]: string | null } {
+    // the variable is 'Path' on Windows, and an explicit value in 'env' wins over the inherited one
+    const pathKey = Object.keys(env || {}).concat(Object.keys(process.env)).find(key => key.toUpperCase() === 'PATH') || 'PATH';
+    const current = env && typeof env[pathKey] === 'string' ? env[pathKey] : process.env[pathKey];
+
+    const result = Object.assign({}, env);
+    result[pathKey] = current ? shimDir + path.delimiter + current : shimDir;
+    return result;
+}
+
+function shellQuote(arg: string): string {
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Turn a glob into a regular expression matching the end of a '/' separated path: '**' matches across directories,
+ * '*' and '?' within a name.
+ */
+function globToRegExp(glob: string): string {
+    const pattern = glob.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^(\*\*\/)+/, '').split('**').map(part =>
+        part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')).join('.*');
+    return `(^|/)${pattern}$`;
+}
@@ -0,0 +1,111 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+const DEBUG_TYPE = 'node-chakracore-time-travel-debugger';
+
+interface ITestRunner {
+    name: string;
+    /** Entry point of the runner, relative to the workspace folder. */
+    program: string;
+    /** The exceptions a failing test throws. */
+    failureTypes: string[];
+    args(testFile: string, testName: string | undefined, folderPath: string): string[];
+}
+
+const TEST_RUNNERS: ITestRunner[] = [
+    {
+        name: 'jest',
+        program: 'node_modules/jest/bin/jest.js',
+        failureTypes: ['JestAssertionError', 'AssertionError', 'Error: expect('],
+        // jest runs tests in worker processes unless it is told to run them in-band. Jest 30 renamed
+        // '--testPathPattern' to '--testPathPatterns'.
+        args: (testFile, testName, folderPath) => ['--runInBand', getMajorVersion(folderPath, 'jest') >= 30 ? '--testPathPatterns' : '--testPathPattern', escapeRegExp(testFile)]
+            .concat(testName ? ['--testNamePattern', escapeRegExp(testName)] : [])
+    },
+    {
+        name: 'mocha',
+        program: 'node_modules/mocha/bin/_mocha',
+        failureTypes: ['AssertionError'],
+        args: (testFile, testName) => ['--no-timeouts', testFile]
+            .concat(testName ? ['--grep', escapeRegExp(testName)] : [])
+    }
+];
+
+/**
+ * Run the tests in 'uri' (or the active editor) under the time-travel runtime. A trace is written when a test fails and
+ * its replay opens at the failing assertion. A single line selected in the editor limits the run to the tests with
+ * that name.
+ */
+export function debugTestWithTimeTravel(uri?: vscode.Uri): Thenable<void> {
+    const editor = vscode.window.activeTextEditor;
+    const testUri = uri || (editor && editor.document.uri);
+    const folder = testUri && vscode.workspace.getWorkspaceFolder(testUri);
+    if (!testUri || !folder) {
+        vscode.window.showErrorMessage('TTD: Open a test file of a workspace folder to debug it with time-travel.');
+        return Promise.resolve();
+    }
+
+    const folderPath = folder.uri.fsPath;
+    const runner = findTestRunner(folderPath);
+    if (!runner) {
+        vscode.window.showErrorMessage(`TTD: No supported test runner (${TEST_RUNNERS.map(r => r.name).join(', ')}) is installed in ${folderPath}.`);
+        return Promise.resolve();
+    }
+
+    let testName: string | undefined;
+    if (editor && editor.document.uri.toString() === testUri.toString() && !editor.selection.isEmpty && editor.selection.isSingleLine) {
+        testName = editor.document.getText(editor.selection).trim() || undefined;
+    }
+
+    const testFile = path.relative(folderPath, testUri.fsPath).replace(/\\/g, '/');
+    const config: vscode.DebugConfiguration = {
+        type: DEBUG_TYPE,
+        request: 'launch',
+        name: `Time-Travel Test (${path.basename(testFile)})`,
+        program: path.join(folderPath, runner.program),
+        args: runner.args(testFile, testName, folderPath),
+        cwd: folderPath,
+        console: 'internalConsole',
+        skipFiles: ['<node_internals>/**', '**/node_modules/**'],
+        // test runners catch the failures of the tests, so caught exceptions count too, but only the assertions
+        autoTraceOnException: 'all',
+        autoTraceExceptionTypes: runner.failureTypes,
+        autoTraceOpenReplay: true
+    };
+
+    return vscode.debug.startDebugging(folder, config).then(() => undefined);
+}
+
+function findTestRunner(folderPath: string): ITestRunner | undefined {
+    let dependencies: { [name: string]: string } = {};
+    try {
+        const packageJson = JSON.parse(fs.readFileSync(path.join(folderPath, 'package.json'), 'utf8'));
+        dependencies = Object.assign({}, packageJson.dependencies, packageJson.devDependencies);
+    } catch (e) {
+        // the runner may still be installed
+    }
+
+    const installed = TEST_RUNNERS.filter(runner => fs.existsSync(path.join(folderPath, runner.program)));
+    return installed.find(runner => !!dependencies[runner.name]) || installed[0];
+}
+
+/**
+ * Returns the major version of the package 'name' installed in 'folderPath', or 0 if it cannot be read.
+ */
+function getMajorVersion(folderPath: string, name: string): number {
+    try {
+        const packageJson = JSON.parse(fs.readFileSync(path.join(folderPath, 'node_modules', name, 'package.json'), 'utf8'));
+        return parseInt(packageJson.version, 10) || 0;
+    } catch (e) {
+        return 0;
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,141 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { ITimelineEvent } from './nodeDebugTTDInterfaces';
+import { isReplaySession } from './replaySessions';
+
+/**
+ * An event-loop callback shown in the 'Time-Travel Timeline' view.
+ */
+export class TimelineItem extends vscode.TreeItem {
+    constructor(public readonly session: vscode.DebugSession, public readonly event: ITimelineEvent, startTime: number | undefined) {
+        super(`#${event.index} ${event.name}`, vscode.TreeItemCollapsibleState.None);
+
+        const details: string[] = [];
+        if (event.kind) {
+            details.push(event.kind);
+        }
+        if (event.source && event.line !== undefined) {
+            details.push(`${event.source.name}:${event.line}`);
+        }
+        if (event.timestamp !== undefined && startTime !== undefined) {
+            details.push(`+${event.timestamp - startTime} ms`);
+        }
+
+        this.description = details.join(' - ');
+        this.tooltip = [
+            `Event ${event.index}: ${event.name}`,
+            event.source && event.source.path ? `${event.source.path}:${event.line}` : undefined,
+            event.timestamp !== undefined ? `Started: ${new Date(event.timestamp).toLocaleTimeString()}` : undefined,
+            event.duration !== undefined ? `Duration: ${event.duration} ms` : undefined
+        ].filter(line => !!line).join('\n');
+        this.contextValue = 'timelineEvent';
+        this.command = { command: 'nodeChakraTTD.moveToEvent', title: 'Move to Event', arguments: [this] };
+    }
+}
+
+/**
+ * Lists the event-loop callbacks recorded in the trace of the active replay session.
+ */
+export class TimelineExplorerProvider implements vscode.TreeDataProvider<TimelineItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<TimelineItem | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private _timelines = new Map<string, Thenable<ITimelineEvent[]>>();
+
+    public refresh(session?: vscode.DebugSession): void {
+        if (session) {
+            this._timelines.delete(session.id);
+        } else {
+            this._timelines.clear();
+        }
+
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Query the timeline of 'session' again if the last attempt failed, e.g. because the replay was still starting.
+     */
+    public refreshIfMissing(session: vscode.DebugSession): void {
+        if (!this._timelines.has(session.id)) {
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
+    public getTreeItem(item: TimelineItem): vscode.TreeItem {
+        return item;
+    }
+
+    public getChildren(item?: TimelineItem): Thenable<TimelineItem[]> {
+        const session = vscode.debug.activeDebugSession;
+        if (item || !session || !isReplaySession(session)) {
+            return Promise.resolve([]);
+        }
+
+        return this.getTimeline(session).then(events => {
+            const startTime = events.length !== 0 ? events[0].timestamp : undefined;
+            return events.map(event => new TimelineItem(session, event, startTime));
+        });
+    }
+
+    public dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+
+    private getTimeline(session: vscode.DebugSession): Thenable<ITimelineEvent[]> {
+        let timeline = this._timelines.get(session.id);
+        if (!timeline) {
+            timeline = session.customRequest('ttdGetEventTimeline').then(response => <ITimelineEvent[]>response.events, () => {
+                // not connected yet or the runtime cannot list the events; try again on the next refresh
+                this._timelines.delete(session.id);
+                return [];
+            });
+            this._timelines.set(session.id, timeline);
+        }
+
+        return timeline;
+    }
+}
+
+/**
+ * Register the 'Time-Travel Timeline' view together with its commands.
+ */
+export function registerTimelineExplorer(context: vscode.ExtensionContext): TimelineExplorerProvider {
+    const provider = new TimelineExplorerProvider();
+    context.subscriptions.push(provider);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('nodeChakraTTD.timeline', provider));
+
+    context.subscriptions.push(vscode.debug.onDidChangeActiveDebugSession(() => provider.refresh()));
+    context.subscriptions.push(vscode.debug.onDidStartDebugSession(session => provider.refresh(session)));
+    context.subscriptions.push(vscode.debug.onDidTerminateDebugSession(session => provider.refresh(session)));
+    context.subscriptions.push(vscode.debug.onDidReceiveDebugSessionCustomEvent(e => {
+        if (e.event === 'ttdReplayPosition') {
+            provider.refreshIfMissing(e.session);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.refreshTimeline', () => provider.refresh()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.moveToEvent', (item: TimelineItem) => {
+        return item.session.customRequest('ttdMoveToEvent', { eventIndex: item.event.index }).then(undefined, err => {
+            vscode.window.showErrorMessage(`TTD: Failed to move to event ${item.event.index} -- ${err.message}`);
+        });
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.openEventSource', (item: TimelineItem) => {
+        const source = item.event.source;
+        if (!source || !source.path || !path.isAbsolute(source.path) || item.event.line === undefined) {
+            vscode.window.showErrorMessage(`TTD: The source of event ${item.event.index} is not available.`);
+            return undefined;
+        }
+
+        const position = new vscode.Position(Math.max(0, item.event.line - 1), Math.max(0, (item.event.column || 1) - 1));
+        return vscode.window.showTextDocument(vscode.Uri.file(source.path), { selection: new vscode.Range(position, position) });
+    }));
+
+    return provider;
+}
@@ -0,0 +1,299 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import * as stream from 'stream';
+import * as crypto from 'crypto';
+
+import * as pathUtils from './pathUtils';
+import * as traceUtils from './traceUtils';
+
+/**
+ * A portable trace is a gzipped tar archive holding the files of one trace plus a manifest describing how it was
+ * captured. Only plain files and directories are stored, which is all the runtime writes into a trace directory.
+ */
+export const TRACE_ARCHIVE_EXTENSION = 'ttdtrace';
+const ARCHIVE_MANIFEST_FILE = traceUtils.TRACE_MANIFEST_FILE;
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Pack the trace in 'traceDir' into the archive 'archivePath'. The files are streamed into the archive one after the
+ * other, so traces larger than the available memory can be exported.
+ */
+export async function exportTrace(traceDir: string, manifest: traceUtils.ITraceManifest, archivePath: string): Promise<void> {
+    const output = fs.createWriteStream(archivePath);
+    const gzip = zlib.createGzip();
+    gzip.pipe(output);
+
+    const closed = new Promise<void>(resolve => output.on('close', () => resolve()));
+    const failed = new Promise<void>((resolve, reject) => {
+        output.on('error', reject);
+        gzip.on('error', reject);
+    });
+
+    try {
+        writeEntry(gzip, ARCHIVE_MANIFEST_FILE, Buffer.from(JSON.stringify(manifest, undefined, 4)));
+        for (const file of traceUtils.listTraceFiles(traceDir)) {
+            if (file !== ARCHIVE_MANIFEST_FILE) {
+                await Promise.race([writeFileEntry(gzip, file, path.join(traceDir, file)), failed]);
+            }
+        }
+
+        // an archive ends with two empty blocks
+        gzip.end(Buffer.alloc(2 * BLOCK_SIZE));
+        await Promise.race([closed, failed]);
+    } catch (ex) {
+        // do not leave a truncated archive behind
+        gzip.end();
+        await closed;
+        try {
+            fs.unlinkSync(archivePath);
+        } catch (e) {
+            // it was never created
+        }
+
+        throw ex;
+    }
+}
+
+/**
+ * Unpack the archive 'archivePath' into a new trace directory below 'traceRoot' and record it in the index there. The
+ * archive is unpacked as it is read, into a temporary directory that becomes the trace directory once the archive
+ * turned out to be complete.
+ */
+export async function importTrace(archivePath: string, traceRoot: string): Promise<[string, traceUtils.ITraceManifest]> {
+    const tempDir = path.join(traceRoot, `.import-${crypto.randomBytes(4).toString('hex')}`);
+    if (!pathUtils.createTargetDirectory(tempDir)) {
+        throw new Error(`Cannot create directory ${tempDir}`);
+    }
+
+    try {
+        const extractor = new TraceExtractor(tempDir);
+        await new Promise<void>((resolve, reject) => {
+            const input = fs.createReadStream(archivePath);
+            const gunzip = zlib.createGunzip();
+            [input, gunzip, extractor].forEach(stream => stream.on('error', reject));
+            extractor.on('finish', () => resolve());
+            input.pipe(gunzip).pipe(extractor);
+        });
+        await extractor.closeFiles();
+
+        const manifest = traceUtils.readTraceManifest(tempDir);
+        if (!manifest) {
+            throw new Error(`'${archivePath}' is not a time-travel trace archive`);
+        }
+
+        const captureTime = manifest.captureTime || Date.now();
+        const traceDir = traceUtils.allocateTraceDirectory(traceRoot, new Date(captureTime));
+        fs.renameSync(tempDir, traceDir);
+
+        traceUtils.addTraceEntry(traceRoot, { name: path.basename(traceDir), captureTime, program: manifest.program });
+        return <[string, traceUtils.ITraceManifest]>[traceDir, manifest];
+    } catch (ex) {
+        pathUtils.deleteTargetDirectory(tempDir);
+        throw ex;
+    }
+}
+
+function writeEntry(output: zlib.Gzip, name: string, contents: Buffer): void {
+    output.write(makeHeader(name, contents.length));
+    output.write(contents);
+    writePadding(output, contents.length);
+}
+
+/**
+ * Stream the file 'filePath' into the archive as 'name'. Its size is taken up front; should the file change while it
+ * is read, the entry is cut or filled with zeros so the archive stays readable.
+ */
+function writeFileEntry(output: zlib.Gzip, name: string, filePath: string): Promise<void> {
+    const size = fs.statSync(filePath).size;
+    output.write(makeHeader(name, size));
+    if (size === 0) {
+        return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+        let read = 0;
+        const input = fs.createReadStream(filePath, { end: size - 1 });
+        input.on('data', (chunk: Buffer) => read += chunk.length);
+        input.on('error', reject);
+        input.on('end', () => {
+            if (read < size) {
+                output.write(Buffer.alloc(size - read));
+            }
+
+            writePadding(output, size);
+            resolve();
+        });
+        input.pipe(output, { end: false });
+    });
+}
+
+function writePadding(output: zlib.Gzip, size: number): void {
+    const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding !== 0) {
+        output.write(Buffer.alloc(padding));
+    }
+}
+
+/**
+ * Build a ustar header for a regular file.
+ */
+function makeHeader(name: string, size: number): Buffer {
+    if (Buffer.byteLength(name) > 100) {
+        throw new Error(`Trace file name is too long to archive: ${name}`);
+    }
+
+    const header = Buffer.alloc(BLOCK_SIZE);
+    header.write(name, 0);
+    header.write(toOctal(0o644, 7), 100);
+    header.write(toOctal(0, 7), 108);
+    header.write(toOctal(0, 7), 116);
+    header.write(toOctal(size, 11), 124);
+    header.write(toOctal(Math.floor(Date.now() / 1000), 11), 136);
+    header.write('        ', 148); // checksum is computed with its own field set to spaces
+    header.write('0', 156);
+    header.write('ustar\u000000', 257);
+
+    let checksum = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        checksum += header[i];
+    }
+    header.write(toOctal(checksum, 6) + '\u0000 ', 148);
+
+    return header;
+}
+
+function toOctal(value: number, digits: number): string {
+    let result = value.toString(8);
+    while (result.length < digits) {
+        result = '0' + result;
+    }
+
+    return result;
+}
+
+/**
+ * Writes the files of a tar archive below 'targetDir' as the archive is written to it. Each file is streamed to disk,
+ * so only the current block of the archive is held in memory.
+ */
+class TraceExtractor extends stream.Writable {
+    private _header = Buffer.alloc(0);
+    private _file: fs.WriteStream | undefined;
+    private _remaining = 0;
+    private _skip = 0;
+    private _ended = false;
+    private _closed: Promise<void>[] = [];
+
+    constructor(private _targetDir: string) {
+        super();
+    }
+
+    /**
+     * Wait until every file written so far is on disk.
+     */
+    public closeFiles(): Promise<void> {
+        return Promise.all(this._closed).then(() => { /* make void */ });
+    }
+
+    public _write(chunk: Buffer, encoding: string, callback: (error?: Error) => void): void {
+        this.consume(chunk).then(() => callback(), callback);
+    }
+
+    private async consume(chunk: Buffer): Promise<void> {
+        let offset = 0;
+        while (offset < chunk.length && !this._ended) {
+            if (this._remaining > 0) {
+                const data = chunk.slice(offset, offset + this._remaining);
+                offset += data.length;
+                this._remaining -= data.length;
+                await this.writeFileData(data);
+            } else if (this._skip > 0) {
+                const skipped = Math.min(this._skip, chunk.length - offset);
+                offset += skipped;
+                this._skip -= skipped;
+            } else {
+                const needed = BLOCK_SIZE - this._header.length;
+                this._header = Buffer.concat([this._header, chunk.slice(offset, offset + needed)]);
+                offset += Math.min(needed, chunk.length - offset);
+                if (this._header.length === BLOCK_SIZE) {
+                    this.startEntry(this._header);
+                    this._header = Buffer.alloc(0);
+                }
+            }
+        }
+    }
+
+    private startEntry(header: Buffer): void {
+        const name = readString(header, 0, 100);
+        if (!name) {
+            this._ended = true; // end of archive marker
+            return;
+        }
+
+        const prefix = readString(header, 345, 155);
+        const fullName = prefix ? `${prefix}/${name}` : name;
+        const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+        const type = String.fromCharCode(header[156]);
+        const padding = Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE - size;
+
+        if (type !== '0' && type !== '\u0000') {
+            this._skip = size + padding;
+            return;
+        }
+
+        const filePath = path.join(this._targetDir, checkEntryName(fullName));
+        pathUtils.mkdirs(path.dirname(filePath));
+        const file = fs.createWriteStream(filePath);
+        this._closed.push(new Promise<void>((resolve, reject) => {
+            file.on('error', reject);
+            file.on('close', () => resolve());
+        }));
+
+        this._remaining = size;
+        this._skip = padding;
+        if (size === 0) {
+            file.end();
+        } else {
+            this._file = file;
+        }
+    }
+
+    private writeFileData(data: Buffer): Promise<void> {
+        const file = this._file;
+        if (this._remaining === 0) {
+            this._file = undefined;
+            file.end(data);
+            return Promise.resolve();
+        }
+
+        return file.write(data) ? Promise.resolve() : new Promise<void>((resolve, reject) => {
+            file.once('error', reject);
+            file.once('drain', () => {
+                file.removeListener('error', reject);
+                resolve();
+            });
+        });
+    }
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+    const end = buffer.indexOf(0, start);
+    return buffer.toString('utf8', start, end >= 0 && end < start + length ? end : start + length);
+}
+
+/**
+ * Archives come from other machines, so reject anything that would be written outside of the trace directory.
+ */
+function checkEntryName(name: string): string {
+    const normalized = path.normalize(name);
+    if (path.isAbsolute(normalized) || normalized.split(/[\\\/]/).some(segment => segment === '..')) {
+        throw new Error(`Invalid file name in trace archive: ${name}`);
+    }
+
+    return normalized;
+}
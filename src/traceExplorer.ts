@@ -0,0 +1,189 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+import * as traceUtils from './traceUtils';
+
+const DEBUG_TYPE = 'node-chakracore-time-travel-debugger';
+
+/**
+ * A trace shown in the 'Time-Travel Traces' view.
+ */
+export class TraceItem extends vscode.TreeItem {
+    public readonly traceDir: string;
+
+    constructor(public readonly traceRoot: string, public readonly entry: traceUtils.ITraceEntry, public readonly folder: vscode.WorkspaceFolder | undefined) {
+        super(entry.label || formatCaptureTime(entry.captureTime), vscode.TreeItemCollapsibleState.None);
+
+        this.traceDir = path.join(traceRoot, entry.name);
+        const size = formatSize(traceUtils.getDirectorySize(this.traceDir));
+
+        const details: string[] = [];
+        if (entry.label) {
+            details.push(formatCaptureTime(entry.captureTime));
+        }
+        if (entry.program) {
+            details.push(path.basename(entry.program));
+        }
+        details.push(size);
+
+        this.description = details.join(' - ');
+        this.tooltip = [
+            this.traceDir,
+            `Captured: ${formatCaptureTime(entry.captureTime)}`,
+            `Program: ${entry.program || 'unknown'}`,
+            `Size: ${size}`
+        ].join('\n');
+        this.contextValue = entry.pinned ? 'pinnedTrace' : 'trace';
+    }
+}
+
+/**
+ * Lists the traces found in the trace directories of the workspace, newest first.
+ */
+export class TraceExplorerProvider implements vscode.TreeDataProvider<TraceItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<TraceItem | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    public refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    public getTreeItem(item: TraceItem): vscode.TreeItem {
+        return item;
+    }
+
+    public getChildren(item?: TraceItem): TraceItem[] {
+        if (item) {
+            return [];
+        }
+
+        const items: TraceItem[] = [];
+        getWorkspaceTraceRoots().forEach((folder, traceRoot) => {
+            for (const entry of traceUtils.readTraceIndex(traceRoot).traces) {
+                if (fs.existsSync(path.join(traceRoot, entry.name))) {
+                    items.push(new TraceItem(traceRoot, entry, folder));
+                }
+            }
+        });
+
+        return items.sort((a, b) => b.entry.captureTime - a.entry.captureTime);
+    }
+
+    public dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+/**
+ * Register the 'Time-Travel Traces' view together with the commands of its context menu.
+ */
+export function registerTraceExplorer(context: vscode.ExtensionContext): TraceExplorerProvider {
+    const provider = new TraceExplorerProvider();
+    context.subscriptions.push(provider);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('nodeChakraTTD.traces', provider));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.refreshTraces', () => provider.refresh()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.replayTrace', (item: TraceItem) => {
+        const config = traceUtils.makeReplayConfiguration(item.traceDir, `Time-Travel Replay (${item.label})`);
+        return vscode.debug.startDebugging(item.folder, <vscode.DebugConfiguration>config);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.revealTrace', (item: TraceItem) => {
+        return vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(item.traceDir));
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.renameTrace', (item: TraceItem) => {
+        return vscode.window.showInputBox({ prompt: 'Name of the time-travel trace', value: item.entry.label || '' }).then(label => {
+            if (label !== undefined) {
+                traceUtils.updateTraceEntry(item.traceRoot, item.entry.name, { label: label || undefined });
+                provider.refresh();
+            }
+        });
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.pinTrace', (item: TraceItem) => {
+        traceUtils.updateTraceEntry(item.traceRoot, item.entry.name, { pinned: true });
+        provider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.unpinTrace', (item: TraceItem) => {
+        traceUtils.updateTraceEntry(item.traceRoot, item.entry.name, { pinned: false });
+        provider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('nodeChakraTTD.deleteTrace', (item: TraceItem) => {
+        if (traceUtils.isTraceInUse(item.traceDir)) {
+            vscode.window.showErrorMessage(`TTD: Trace '${item.label}' is open in a replay session. Stop the replay before deleting it.`);
+            return undefined;
+        }
+
+        return vscode.window.showWarningMessage(`Delete time-travel trace '${item.label}'?`, { modal: true }, 'Delete').then(choice => {
+            if (choice === 'Delete') {
+                if (!traceUtils.deleteTrace(item.traceRoot, item.entry.name)) {
+                    vscode.window.showErrorMessage(`TTD: Failed to delete trace ${item.traceDir}`);
+                }
+                provider.refresh();
+            }
+        });
+    }));
+
+    return provider;
+}
+
+/**
+ * Returns the trace roots used by the workspace, each with the workspace folder it belongs to: the default trace root
+ * of every folder and the 'traceDirectory' of every time-travel launch configuration.
+ */
+export function getWorkspaceTraceRoots(): Map<string, vscode.WorkspaceFolder> {
+    const traceRoots = new Map<string, vscode.WorkspaceFolder>();
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        const folderPath = folder.uri.fsPath;
+        traceRoots.set(traceUtils.defaultTraceRoot(folderPath), folder);
+
+        const configurations = vscode.workspace.getConfiguration('launch', folder.uri).get<any[]>('configurations') || [];
+        for (const config of configurations) {
+            if (config.type !== DEBUG_TYPE || (config.request !== 'launch' && config.request !== 'attach') || config.replay) {
+                continue;
+            }
+
+            // the adapter falls back to the directory of the program when there is no cwd
+            let cwd = folderPath;
+            if (config.cwd) {
+                cwd = traceUtils.resolveTraceDirectory(config.cwd, undefined, folderPath);
+            } else if (config.program) {
+                cwd = path.dirname(traceUtils.resolveTraceDirectory(config.program, undefined, folderPath));
+            }
+
+            const traceRoot = config.traceDirectory ?
+                traceUtils.resolveTraceDirectory(config.traceDirectory, cwd, folderPath) :
+                traceUtils.defaultTraceRoot(cwd);
+
+            if (path.isAbsolute(traceRoot)) {
+                traceRoots.set(traceRoot, folder);
+            }
+        }
+    }
+
+    return traceRoots;
+}
+
+function formatCaptureTime(captureTime: number): string {
+    return new Date(captureTime).toLocaleString();
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    } else if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    } else {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+}
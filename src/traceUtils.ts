@@ -0,0 +1,471 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import {DebugProtocol} from 'vscode-debugprotocol';
+
+import * as pathUtils from './pathUtils';
+import * as errors from './errors';
+
+const TRACE_INDEX_FILE = 'ttdindex.json';
+const TRACE_LOG_FILE = 'ttdlog.log';
+export const TRACE_MANIFEST_FILE = 'ttdmanifest.json';
+const TRACE_BOOKMARKS_FILE = 'bookmarks.json';
+const TRACE_REPLAY_LOCK_FILE = 'replay.lock';
+
+/** Version of the manifest format written by this debugger. Traces with a newer manifest cannot be replayed. */
+export const TRACE_MANIFEST_VERSION = 1;
+
+/**
+ * Describes how a trace was captured. It is written as 'ttdmanifest.json' into the trace directory.
+ */
+export interface ITraceManifest {
+    /** Version of the manifest format. */
+    manifestVersion?: number;
+    /** Time the trace was written, in milliseconds since the epoch. */
+    captureTime: number;
+    /** Size in bytes of each file the runtime wrote, by path relative to the trace directory. */
+    files?: { [file: string]: number };
+    /** The program that was being debugged. */
+    program?: string;
+    /** Arguments passed to the program. */
+    args?: string[];
+    /** Names of the environment variables set by the debug configuration. Values are not recorded. */
+    envKeys?: string[];
+    /** Working directory of the program. */
+    cwd?: string;
+    /** The runtime that wrote the trace. */
+    runtimeExecutable?: string;
+    /** Version of the runtime that wrote the trace. */
+    runtimeVersion?: string;
+    /** Version of the debug adapter that captured the trace. */
+    adapterVersion?: string;
+    /** Name of the debug configuration of the live session. */
+    configurationName?: string;
+}
+
+/**
+ * One captured trace, stored in its own subdirectory of the trace root.
+ */
+export interface ITraceEntry {
+    /** Name of the trace subdirectory inside the trace root. */
+    name: string;
+    /** Time the trace was written, in milliseconds since the epoch. */
+    captureTime: number;
+    /** The program that was being debugged. */
+    program?: string;
+    /** Name given to the trace by the user. */
+    label?: string;
+    /** Pinned traces are never removed by the retention policy. */
+    pinned?: boolean;
+}
+
+/**
+ * A labelled position in a trace, stored in 'bookmarks.json' in the trace directory so it is shared with the trace.
+ */
+export interface ITraceBookmark {
+    id: string;
+    label: string;
+    /** The event-loop callback the position is in. */
+    eventIndex: number;
+    /** Location of the position, as the runtime recorded it. Lines and columns are 0-based. */
+    url?: string;
+    lineNumber?: number;
+    columnNumber?: number;
+    /** Time the bookmark was added, in milliseconds since the epoch. */
+    created: number;
+}
+
+/**
+ * Index file kept in the trace root listing the traces captured there, oldest first.
+ */
+export interface ITraceIndex {
+    traces: ITraceEntry[];
+}
+
+/**
+ * Limits on the traces kept in a trace root. Traces beyond them are removed oldest first.
+ */
+export interface ITraceRetention {
+    /** Maximum number of traces. */
+    maxCount?: number;
+    /** Maximum size of all traces together, in bytes. */
+    maxTotalBytes?: number;
+    /** Maximum age of a trace, in days. */
+    maxAgeDays?: number;
+}
+
+/**
+ * Returns the trace root used when no 'traceDirectory' is configured. It lives in the temp directory, outside of the
+ * source tree, and is keyed by 'baseDir' (usually the cwd of the debuggee) so that different projects do not share it.
+ */
+export function defaultTraceRoot(baseDir?: string): string {
+    let name = 'default';
+    if (baseDir) {
+        const hash = crypto.createHash('md5').update(path.normalize(baseDir)).digest('hex').substr(0, 8);
+        name = `${path.basename(baseDir)}-${hash}`;
+    }
+
+    return path.join(os.tmpdir(), 'node-chakracore-ttd', name);
+}
+
+/**
+ * Substitute the '${workspaceFolder}' and '${cwd}' variables in a 'traceDirectory' value.
+ * Variables without a value are left in place.
+ */
+export function resolveTraceDirectory(traceDirectory: string, cwd?: string, workspaceFolder?: string): string {
+    return path.normalize(pathUtils.substituteVariables(traceDirectory, cwd, workspaceFolder));
+}
+
+/**
+ * Returns a new, not yet existing, directory for a trace captured at 'captureTime'.
+ * The name is derived from the capture time so that traces sort chronologically.
+ */
+export function allocateTraceDirectory(traceRoot: string, captureTime: Date): string {
+    const baseName = captureTime.toISOString().replace(/[:.]/g, '-');
+
+    let traceDir = path.join(traceRoot, baseName);
+    for (let i = 1; fs.existsSync(traceDir); i++) {
+        traceDir = path.join(traceRoot, `${baseName}-${i}`);
+    }
+
+    return traceDir;
+}
+
+export function readTraceIndex(traceRoot: string): ITraceIndex {
+    try {
+        const index = JSON.parse(fs.readFileSync(path.join(traceRoot, TRACE_INDEX_FILE), 'utf8'));
+        if (index && Array.isArray(index.traces)) {
+            return index;
+        }
+    } catch (e) {
+        // a missing or unreadable index is treated as empty
+    }
+
+    return { traces: [] };
+}
+
+export function writeTraceIndex(traceRoot: string, index: ITraceIndex): boolean {
+    try {
+        fs.writeFileSync(path.join(traceRoot, TRACE_INDEX_FILE), JSON.stringify(index, undefined, 4));
+    } catch (e) {
+        return false;
+    }
+
+    return true;
+}
+
+export function readTraceManifest(traceDir: string): ITraceManifest | undefined {
+    try {
+        const manifest = JSON.parse(fs.readFileSync(path.join(traceDir, TRACE_MANIFEST_FILE), 'utf8'));
+        return manifest && typeof manifest === 'object' ? manifest : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+export function writeTraceManifest(traceDir: string, manifest: ITraceManifest): boolean {
+    try {
+        fs.writeFileSync(path.join(traceDir, TRACE_MANIFEST_FILE), JSON.stringify(manifest, undefined, 4));
+    } catch (e) {
+        return false;
+    }
+
+    return true;
+}
+
+export function readTraceBookmarks(traceDir: string): ITraceBookmark[] {
+    try {
+        const bookmarks = JSON.parse(fs.readFileSync(path.join(traceDir, TRACE_BOOKMARKS_FILE), 'utf8')).bookmarks;
+        return Array.isArray(bookmarks) ? bookmarks : [];
+    } catch (e) {
+        return [];
+    }
+}
+
+export function writeTraceBookmarks(traceDir: string, bookmarks: ITraceBookmark[]): boolean {
+    try {
+        fs.writeFileSync(path.join(traceDir, TRACE_BOOKMARKS_FILE), JSON.stringify({ bookmarks }, undefined, 4));
+    } catch (e) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Mark 'traceDir' as open in a replay run by this process, so that trace retention leaves it alone.
+ */
+export function lockTraceForReplay(traceDir: string): void {
+    try {
+        fs.writeFileSync(path.join(traceDir, TRACE_REPLAY_LOCK_FILE), String(process.pid));
+    } catch (e) {
+        // the trace can still be replayed, it is just not protected from retention
+    }
+}
+
+export function unlockTraceForReplay(traceDir: string): void {
+    try {
+        fs.unlinkSync(path.join(traceDir, TRACE_REPLAY_LOCK_FILE));
+    } catch (e) {
+        // not locked
+    }
+}
+
+/**
+ * Returns whether a running replay has 'traceDir' open. Locks left behind by a replay that did not end cleanly are
+ * ignored.
+ */
+export function isTraceInUse(traceDir: string): boolean {
+    let pid: number;
+    try {
+        pid = parseInt(fs.readFileSync(path.join(traceDir, TRACE_REPLAY_LOCK_FILE), 'utf8'), 10);
+    } catch (e) {
+        return false;
+    }
+
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        return e.code === 'EPERM';
+    }
+}
+
+/**
+ * Returns the paths, relative to 'traceDir' and separated by '/', of all files in the trace.
+ */
+export function listTraceFiles(traceDir: string, prefix: string = ''): string[] {
+    let files: string[] = [];
+    for (const item of fs.readdirSync(path.join(traceDir, prefix))) {
+        const relPath = prefix ? `${prefix}/${item}` : item;
+        if (relPath === TRACE_REPLAY_LOCK_FILE) {
+            continue;
+        }
+
+        const stats = fs.statSync(path.join(traceDir, relPath));
+        if (stats.isDirectory()) {
+            files = files.concat(listTraceFiles(traceDir, relPath));
+        } else if (stats.isFile()) {
+            files.push(relPath);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Returns the sizes of the files the runtime wrote into 'traceDir', for recording in its manifest.
+ */
+export function getTraceFileSizes(traceDir: string): { [file: string]: number } {
+    const sizes: { [file: string]: number } = {};
+    for (const file of listTraceFiles(traceDir)) {
+        if (file !== TRACE_MANIFEST_FILE) {
+            sizes[file] = fs.statSync(path.join(traceDir, file)).size;
+        }
+    }
+
+    return sizes;
+}
+
+/**
+ * Check that 'traceDir' holds a complete trace that this debugger can replay. Returns the error describing the first
+ * problem found, or undefined if the trace looks fine. Traces captured before manifests were written only get the
+ * checks that do not need one.
+ */
+export function validateTrace(traceDir: string): DebugProtocol.Message | undefined {
+    try {
+        if (!fs.statSync(traceDir).isDirectory()) {
+            return errors.traceNotFound(traceDir);
+        }
+    } catch (e) {
+        return errors.traceNotFound(traceDir);
+    }
+
+    const logPath = path.join(traceDir, TRACE_LOG_FILE);
+    if (!fs.existsSync(logPath)) {
+        return errors.traceLogMissing(traceDir);
+    }
+
+    if (fs.statSync(logPath).size === 0) {
+        return errors.traceFileTruncated(logPath);
+    }
+
+    const manifestPath = path.join(traceDir, TRACE_MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+        return undefined;
+    }
+
+    let manifest: ITraceManifest;
+    try {
+        manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    } catch (e) {
+        return errors.traceManifestInvalid(manifestPath, e.message);
+    }
+
+    if (!manifest || typeof manifest !== 'object') {
+        return errors.traceManifestInvalid(manifestPath, 'the manifest is not a JSON object');
+    }
+
+    if (manifest.manifestVersion > TRACE_MANIFEST_VERSION) {
+        return errors.traceManifestIncompatible(manifest.manifestVersion);
+    }
+
+    const files = manifest.files || {};
+    for (const file in files) {
+        const filePath = path.join(traceDir, file);
+        if (!fs.existsSync(filePath)) {
+            return errors.traceFileMissing(filePath);
+        }
+
+        const size = fs.statSync(filePath).size;
+        if (size === 0 || size < files[file]) {
+            return errors.traceFileTruncated(filePath);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Look up the index entry of the trace in 'traceDir', which lives in the index of its parent directory.
+ */
+export function readTraceEntry(traceDir: string): ITraceEntry | undefined {
+    const name = path.basename(traceDir);
+    return readTraceIndex(path.dirname(traceDir)).traces.find(trace => trace.name === name);
+}
+
+/**
+ * Record a successfully written trace in the index of its trace root.
+ */
+export function addTraceEntry(traceRoot: string, entry: ITraceEntry): boolean {
+    const index = readTraceIndex(traceRoot);
+    index.traces = index.traces.filter(trace => trace.name !== entry.name);
+    index.traces.push(entry);
+    index.traces.sort((a, b) => a.captureTime - b.captureTime);
+
+    return writeTraceIndex(traceRoot, index);
+}
+
+/**
+ * Resolve a directory given for replay to a single trace. 'traceDir' may be a trace itself or a trace root, in which
+ * case the most recent trace listed in its index is used.
+ */
+export function findTraceDirectory(traceDir: string): string {
+    if (fs.existsSync(path.join(traceDir, TRACE_LOG_FILE))) {
+        return traceDir;
+    }
+
+    const traces = readTraceIndex(traceDir).traces;
+    if (traces.length !== 0) {
+        return path.join(traceDir, traces[traces.length - 1].name);
+    }
+
+    return traceDir;
+}
+
+/**
+ * Returns a debug configuration that replays the trace in 'traceDir'.
+ */
+export function makeReplayConfiguration(traceDir: string, name: string = 'Time-Travel Replay'): { [key: string]: any } {
+    return {
+        "type": "node-chakracore-time-travel-debugger",
+        "request": "replay",
+        "name": name,
+        "stopOnEntry": true,
+        "traceDirectory": traceDir,
+        "timeout": 30000
+    };
+}
+
+/**
+ * Change the index entry of the trace 'name' in 'traceRoot'.
+ */
+export function updateTraceEntry(traceRoot: string, name: string, update: { label?: string, pinned?: boolean }): boolean {
+    const index = readTraceIndex(traceRoot);
+    const entry = index.traces.find(trace => trace.name === name);
+    if (!entry) {
+        return false;
+    }
+
+    Object.assign(entry, update);
+    return writeTraceIndex(traceRoot, index);
+}
+
+/**
+ * Delete the trace 'name' in 'traceRoot' and remove it from the index.
+ */
+export function deleteTrace(traceRoot: string, name: string): boolean {
+    const traceDir = path.join(traceRoot, name);
+    if (fs.existsSync(traceDir) && !pathUtils.deleteTargetDirectory(traceDir)) {
+        return false;
+    }
+
+    const index = readTraceIndex(traceRoot);
+    index.traces = index.traces.filter(trace => trace.name !== name);
+    return writeTraceIndex(traceRoot, index);
+}
+
+/**
+ * Remove the oldest traces in 'traceRoot' until it is within the limits of 'retention'. Pinned traces, traces open in
+ * a replay and the most recent trace are always kept. Returns the name of each removed trace together with the reason for removing it.
+ */
+export function applyTraceRetention(traceRoot: string, retention: ITraceRetention, now: number = Date.now()): [string, string][] {
+    const removed: [string, string][] = [];
+    if (!retention) {
+        return removed;
+    }
+
+    const index = readTraceIndex(traceRoot);
+    const sizes = new Map<string, number>();
+    index.traces.forEach(trace => sizes.set(trace.name, getDirectorySize(path.join(traceRoot, trace.name))));
+
+    const removeOldest = (reason: string, mustRemove: (trace: ITraceEntry) => boolean): void => {
+        for (let i = 0; i < index.traces.length - 1; i++) {
+            const trace = index.traces[i];
+            const traceDir = path.join(traceRoot, trace.name);
+            if (!trace.pinned && mustRemove(trace) && !isTraceInUse(traceDir) && pathUtils.deleteTargetDirectory(traceDir)) {
+                index.traces.splice(i--, 1);
+                removed.push([trace.name, reason]);
+            }
+        }
+    };
+
+    if (typeof retention.maxAgeDays === 'number') {
+        const oldest = now - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+        removeOldest(`older than ${retention.maxAgeDays} days`, trace => trace.captureTime < oldest);
+    }
+
+    if (typeof retention.maxCount === 'number') {
+        removeOldest(`more than ${retention.maxCount} traces`, () => index.traces.length > retention.maxCount);
+    }
+
+    if (typeof retention.maxTotalBytes === 'number') {
+        const totalBytes = () => index.traces.reduce((total, trace) => total + sizes.get(trace.name), 0);
+        removeOldest(`traces exceed ${retention.maxTotalBytes} bytes`, () => totalBytes() > retention.maxTotalBytes);
+    }
+
+    if (removed.length !== 0) {
+        writeTraceIndex(traceRoot, index);
+    }
+
+    return removed;
+}
+
+export function getDirectorySize(dir: string): number {
+    let size = 0;
+    try {
+        for (const item of fs.readdirSync(dir)) {
+            const stats = fs.lstatSync(path.join(dir, item));
+            size += stats.isDirectory() ? getDirectorySize(path.join(dir, item)) : stats.size;
+        }
+    } catch (e) {
+        // count what could be read
+    }
+
+    return size;
+}
@@ -8,6 +8,12 @@ import * as cp from 'child_process';
 
 const NODE_SHEBANG_MATCHER = new RegExp('#! */usr/bin/env +node');
 
+/**
+ * Node options that take the next argument as their value.
+ */
+export const NODE_OPTIONS_WITH_VALUE = ['-r', '--require', '--loader', '--experimental-loader', '--inspect-port', '--debug-port', '--title',
+    '--icu-data-dir', '--openssl-config', '--redirect-warnings', '--tls-cipher-list'];
+
 export function isJavaScript(aPath: string): boolean {
     const name = path.basename(aPath).toLowerCase();
     if (name.endsWith('.js') || name.endsWith('.mjs')) {
@@ -30,6 +36,13 @@ export function isJavaScript(aPath: string): boolean {
     return false;
 }
 
+/**
+ * Returns whether 'error' is the protocol error a runtime answers a method it does not implement with.
+ */
+export function isMethodNotFound(error: any): boolean {
+    return !!error && error.code === -32601;
+}
+
 export function random(low: number, high: number): number {
     return Math.floor(Math.random() * (high - low) + low);
 }